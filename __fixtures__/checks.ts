@@ -0,0 +1,4 @@
+import { jest } from '@jest/globals'
+
+export const startCheckRuns =
+  jest.fn<typeof import('../src/checks.js').startCheckRuns>()
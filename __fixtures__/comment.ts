@@ -0,0 +1,4 @@
+import { jest } from '@jest/globals'
+
+export const postPullRequestComment =
+  jest.fn<typeof import('../src/comment.js').postPullRequestComment>()
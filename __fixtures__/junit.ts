@@ -0,0 +1,4 @@
+import { jest } from '@jest/globals'
+
+export const writeJUnitReport =
+  jest.fn<typeof import('../src/junit.js').writeJUnitReport>()
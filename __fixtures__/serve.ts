@@ -0,0 +1,38 @@
+/**
+ * Runs the mock desplega.ai server for local development, e.g. to try the
+ * action with `npm run local-action` or the CLI without network access:
+ *
+ *   npm run mock-server -- --scenario flaky --port 4010
+ */
+import { parseArgs } from 'node:util'
+import { MockDesplegaServer, Scenario, SCENARIOS } from './server.js'
+
+const { values } = parseArgs({
+  options: {
+    scenario: { type: 'string', default: 'pass' },
+    port: { type: 'string', default: '4010' },
+    'event-delay': { type: 'string', default: '500' }
+  }
+})
+
+const scenario = values.scenario as Scenario
+if (!SCENARIOS.includes(scenario)) {
+  console.error(
+    `Unknown scenario "${scenario}", expected one of: ${SCENARIOS.join(', ')}`
+  )
+  process.exit(2)
+}
+
+const server = new MockDesplegaServer({
+  scenario,
+  eventDelayMs: Number(values['event-delay']),
+  log: console.log
+})
+const url = await server.listen(Number(values.port))
+console.log(
+  `Mock desplega.ai server listening on ${url} (scenario: ${scenario})`
+)
+
+for (const signal of ['SIGINT', 'SIGTERM']) {
+  process.once(signal, () => void server.close())
+}
@@ -0,0 +1,480 @@
+import { once } from 'node:events'
+import {
+  createServer,
+  IncomingHttpHeaders,
+  IncomingMessage,
+  Server,
+  ServerResponse
+} from 'node:http'
+import { AddressInfo } from 'node:net'
+import { setTimeout as delay } from 'node:timers/promises'
+import type { TriggerRequest } from '../src/desplega.js'
+import type { SuiteRunEvent, TestRunEvent } from '../src/results.js'
+
+/**
+ * Scenarios the mock server can play:
+ *
+ * - `pass`: every test passes
+ * - `fail`: the last test of every suite fails, also when it is rerun
+ * - `flaky`: like `fail`, but reruns of the failed tests pass
+ * - `stall`: the run starts, then its stream stays open without more events
+ * - `drop`: like `pass`, but the first connection to the stream of a run is
+ *   dropped halfway, reconnections resume after `Last-Event-ID`
+ * - `unavailable`: like `pass`, but every endpoint first answers a burst of
+ *   requests with `503 Service Unavailable`
+ */
+export const SCENARIOS = [
+  'pass',
+  'fail',
+  'flaky',
+  'stall',
+  'drop',
+  'unavailable'
+] as const
+
+export type Scenario = (typeof SCENARIOS)[number]
+
+/**
+ * Version reported by the mock server
+ */
+export const MOCK_VERSION = '0.0.0-mock'
+
+/**
+ * Suite run when a trigger request does not name any
+ */
+const DEFAULT_SUITE_ID = 'suite-1'
+
+/**
+ * The tests of every suite, their IDs are prefixed with the suite ID
+ */
+const SUITE_TESTS = [
+  { key: 'login', name: 'Login with valid credentials' },
+  { key: 'checkout', name: 'Checkout with a saved card' }
+]
+
+/**
+ * Options of the mock server
+ */
+export interface MockServerOptions {
+  scenario?: Scenario
+  /** Delay before every event of a stream, default 200ms */
+  eventDelayMs?: number
+  /** Reconnection delay sent to clients in `retry:`, default 1000ms */
+  reconnectDelayMs?: number
+  /** 503 responses of every endpoint in the `unavailable` scenario, default 2 */
+  unavailableCount?: number
+  /** `Retry-After` of the 503 responses in seconds, default 1 */
+  retryAfterSeconds?: number
+  /** Called with a line for every response, e.g. `console.log` */
+  log?: (line: string) => void
+}
+
+/**
+ * A request received by the mock server
+ */
+export interface RecordedRequest {
+  method: string
+  path: string
+  headers: IncomingHttpHeaders
+  body: string
+}
+
+/**
+ * A server-sent event of a mock run
+ */
+type MockEvent =
+  | { event: 'test_suite_run.event'; data: SuiteRunEvent }
+  | { event: 'test_run.event'; data: TestRunEvent }
+
+/**
+ * A run triggered on the mock server
+ */
+interface MockRun {
+  id: string
+  /** The events of the run, the last one is final unless the run stalls */
+  events: MockEvent[]
+  startedAt: number
+  /** Number of connections to the stream of the run so far */
+  connections: number
+  cancelled: boolean
+}
+
+/**
+ * A scriptable stand-in for the desplega.ai actions API. It implements the
+ * version, trigger, event stream, status and cancel endpoints over real HTTP,
+ * so that chunked streams, dropped connections and error responses reach the
+ * action like they would in production.
+ */
+export class MockDesplegaServer {
+  /** Every request received, in order */
+  readonly requests: RecordedRequest[] = []
+
+  private readonly options: Required<Omit<MockServerOptions, 'log'>>
+
+  private readonly log: ((line: string) => void) | undefined
+
+  private readonly server: Server
+
+  private readonly runs = new Map<string, MockRun>()
+
+  /** The run created for every idempotency key */
+  private readonly idempotencyKeys = new Map<string, string>()
+
+  /** Number of 503 responses served by every endpoint */
+  private readonly unavailableServed = new Map<string, number>()
+
+  /**
+   * @param options The scenario and timings
+   */
+  constructor(options: MockServerOptions = {}) {
+    this.options = {
+      scenario: options.scenario ?? 'pass',
+      eventDelayMs: options.eventDelayMs ?? 200,
+      reconnectDelayMs: options.reconnectDelayMs ?? 1000,
+      unavailableCount: options.unavailableCount ?? 2,
+      retryAfterSeconds: options.retryAfterSeconds ?? 1
+    }
+    this.log = options.log
+    this.server = createServer((req, res) => void this.handle(req, res))
+  }
+
+  /**
+   * Start listening
+   * @param port The port, a random free one by default
+   * @param hostname The interface to listen on
+   * @returns The base URL of the server
+   */
+  async listen(port: number = 0, hostname = '127.0.0.1'): Promise<string> {
+    this.server.listen(port, hostname)
+    await once(this.server, 'listening')
+
+    const address = this.server.address() as AddressInfo
+    return `http://${hostname}:${address.port}`
+  }
+
+  /**
+   * Stop the server, closing open streams
+   */
+  async close(): Promise<void> {
+    const closed = new Promise<void>((resolve, reject) =>
+      this.server.close((error) => (error ? reject(error) : resolve()))
+    )
+    this.server.closeAllConnections()
+    await closed
+  }
+
+  /**
+   * Get the requests sent to a path
+   * @param path The path, e.g. `/external/actions/trigger`
+   * @returns The requests, in order
+   */
+  requestsTo(path: string): RecordedRequest[] {
+    return this.requests.filter((request) => request.path === path)
+  }
+
+  /**
+   * Handle a request
+   * @param req The request
+   * @param res The response
+   */
+  private async handle(
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> {
+    const method = req.method ?? 'GET'
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname
+    const body = await readBody(req)
+    this.requests.push({ method, path, headers: req.headers, body })
+    res.on('close', () => this.log?.(`${method} ${path} ${res.statusCode}`))
+
+    if (!req.headers['x-api-key']) {
+      return sendJson(res, 401, { detail: 'Missing API key' })
+    }
+
+    const match = path.match(
+      /^\/external\/actions\/run\/([^/]+)\/(events|status|cancel)$/
+    )
+    const endpoint = match
+      ? `${method} ${match[2]}`
+      : `${method} ${path.replace(/^\/external\/actions/, '')}`
+
+    if (this.unavailable(endpoint)) {
+      res.writeHead(503, {
+        'Content-Type': 'text/plain',
+        'Retry-After': String(this.options.retryAfterSeconds)
+      })
+      res.end('Service Unavailable')
+      return
+    }
+
+    const run = match ? this.runs.get(match[1]) : undefined
+    if (match && !run) {
+      return sendJson(res, 404, { detail: `Run ${match[1]} not found` })
+    }
+
+    switch (endpoint) {
+      case 'GET /version':
+        return sendJson(res, 200, { version: MOCK_VERSION })
+      case 'POST /trigger':
+        return this.trigger(req, body, res)
+      case 'GET events':
+        return this.stream(run!, req, res)
+      case 'GET status':
+        return sendJson(res, 200, this.status(run!))
+      case 'POST cancel':
+        run!.cancelled = true
+        return sendJson(res, 200, { status: 'cancelled' })
+      default:
+        return sendJson(res, 404, { detail: 'Not found' })
+    }
+  }
+
+  /**
+   * Whether an endpoint answers the request with a 503, which it does for the
+   * first requests of the `unavailable` scenario
+   * @param endpoint The endpoint
+   * @returns True if the request is to be rejected
+   */
+  private unavailable(endpoint: string): boolean {
+    if (this.options.scenario !== 'unavailable') return false
+
+    const served = this.unavailableServed.get(endpoint) ?? 0
+    if (served >= this.options.unavailableCount) return false
+
+    this.unavailableServed.set(endpoint, served + 1)
+    return true
+  }
+
+  /**
+   * Create a run, or answer with the run an earlier request with the same
+   * idempotency key created
+   * @param req The request
+   * @param body The request body
+   * @param res The response
+   */
+  private trigger(
+    req: IncomingMessage,
+    body: string,
+    res: ServerResponse
+  ): void {
+    const key = req.headers['idempotency-key']
+    const existing = typeof key === 'string' && this.idempotencyKeys.get(key)
+    if (existing) {
+      return sendJson(res, 409, {
+        run_id: existing,
+        detail: 'The idempotency key was already used'
+      })
+    }
+
+    let request: TriggerRequest
+    try {
+      request = JSON.parse(body) as TriggerRequest
+    } catch {
+      return sendJson(res, 400, { detail: 'Invalid JSON body' })
+    }
+
+    const id = `run-${this.runs.size + 1}`
+    this.runs.set(id, {
+      id,
+      events: buildEvents(this.options.scenario, request),
+      startedAt: Date.now(),
+      connections: 0,
+      cancelled: false
+    })
+    if (typeof key === 'string') this.idempotencyKeys.set(key, id)
+
+    sendJson(res, 200, { run_id: id })
+  }
+
+  /**
+   * Stream the events of a run after `Last-Event-ID`, one every
+   * `eventDelayMs`. The stream ends after the final event, or stays open when
+   * the run stalls.
+   * @param run The run
+   * @param req The request
+   * @param res The response
+   */
+  private async stream(
+    run: MockRun,
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> {
+    run.connections++
+
+    const closed = new AbortController()
+    res.on('close', () => closed.abort())
+
+    // The IDs of the events are their positions, starting at 1
+    const start = Number(req.headers['last-event-id']) || 0
+    const dropAt =
+      this.options.scenario === 'drop' && run.connections === 1
+        ? Math.ceil(run.events.length / 2)
+        : undefined
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache'
+    })
+    res.write(`retry: ${this.options.reconnectDelayMs}\n\n`)
+
+    try {
+      for (let index = start; index < run.events.length; index++) {
+        await delay(this.options.eventDelayMs, undefined, {
+          signal: closed.signal
+        })
+
+        if (index === dropAt) {
+          res.socket?.destroy()
+          return
+        }
+
+        const { event, data } = run.events[index]
+        res.write(`id: ${index + 1}\nevent: ${event}\n`)
+        res.write(`data: ${JSON.stringify(data)}\n\n`)
+      }
+
+      if (this.options.scenario === 'stall') {
+        await once(closed.signal, 'abort')
+      }
+      res.end()
+    } catch {
+      // The client went away
+    }
+  }
+
+  /**
+   * Get the state of a run, as if the events of its stream were sent since
+   * the run started
+   * @param run The run
+   * @returns The status response
+   */
+  private status(run: MockRun): SuiteRunEvent {
+    const elapsed = Date.now() - run.startedAt
+    const sent =
+      this.options.eventDelayMs > 0
+        ? Math.floor(elapsed / this.options.eventDelayMs)
+        : run.events.length
+    const events = run.events.slice(0, Math.max(sent, 1))
+
+    let suite: SuiteRunEvent = { status: 'pending' }
+    const tests: TestRunEvent[] = []
+    for (const { event, data } of events) {
+      if (event === 'test_suite_run.event') suite = data
+      else tests.push(data)
+    }
+
+    return {
+      ...suite,
+      status: run.cancelled ? 'cancelled' : suite.status,
+      tests
+    }
+  }
+}
+
+/**
+ * Build the events of a run
+ * @param scenario The scenario the server plays
+ * @param request The trigger request
+ * @returns The events, in order
+ */
+function buildEvents(scenario: Scenario, request: TriggerRequest): MockEvent[] {
+  const rerun = Boolean(request.test_ids?.length)
+  const suiteIds = request.suite_ids?.length
+    ? request.suite_ids
+    : [DEFAULT_SUITE_ID]
+
+  // Reruns run the given tests, other runs every test of their suites
+  const tests = rerun
+    ? request.test_ids!.map((id) => {
+        const [suiteId, key] = id.split(':')
+        return { id, suiteId, key }
+      })
+    : suiteIds.flatMap((suiteId) =>
+        SUITE_TESTS.map(({ key }) => ({
+          id: `${suiteId}:${key}`,
+          suiteId,
+          key
+        }))
+      )
+  const testIds = tests.map((test) => test.id)
+  const startTime = new Date().toISOString()
+  const suite = suiteIds.length === 1 ? { test_suite_id: suiteIds[0] } : {}
+
+  const events: MockEvent[] = [
+    {
+      event: 'test_suite_run.event',
+      data: {
+        status: 'running',
+        start_time: startTime,
+        test_ids: testIds,
+        ...suite,
+        ts: startTime
+      }
+    }
+  ]
+
+  let failed = false
+  for (const test of tests) {
+    const fails =
+      (scenario === 'fail' || (scenario === 'flaky' && !rerun)) &&
+      test.key === SUITE_TESTS[SUITE_TESTS.length - 1].key
+    failed ||= fails
+
+    events.push({
+      event: 'test_run.event',
+      data: {
+        status: fails ? 'failed' : 'passed',
+        test_id: test.id,
+        test_name: SUITE_TESTS.find(({ key }) => key === test.key)?.name,
+        test_suite_id: test.suiteId,
+        elapsed: 1.5,
+        ...(fails && {
+          failed_step: 'Click the "Pay now" button',
+          error: 'Element not found: button[name="pay"]'
+        }),
+        ts: new Date().toISOString()
+      }
+    })
+  }
+
+  // A stalled run never gets further than its first test
+  if (scenario === 'stall') return events.slice(0, 2)
+
+  const endTime = new Date().toISOString()
+  events.push({
+    event: 'test_suite_run.event',
+    data: {
+      status: failed ? 'failed' : 'passed',
+      elapsed: 1.5 * tests.length,
+      start_time: startTime,
+      end_time: endTime,
+      test_ids: testIds,
+      ...suite,
+      ts: endTime
+    }
+  })
+
+  return events
+}
+
+/**
+ * Read the whole body of a request
+ * @param req The request
+ * @returns The body
+ */
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = []
+  for await (const chunk of req) chunks.push(chunk as Buffer)
+  return Buffer.concat(chunks).toString('utf8')
+}
+
+/**
+ * Send a JSON response
+ * @param res The response
+ * @param status The status code
+ * @param data The response body
+ */
+function sendJson(res: ServerResponse, status: number, data: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(data))
+}
@@ -0,0 +1,4 @@
+import { jest } from '@jest/globals'
+
+export const writeJobSummary =
+  jest.fn<typeof import('../src/summary.js').writeJobSummary>()
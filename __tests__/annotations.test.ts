@@ -0,0 +1,61 @@
+/**
+ * Unit tests for src/annotations.ts
+ */
+import { jest } from '@jest/globals'
+import * as core from '../__fixtures__/core.js'
+
+jest.unstable_mockModule('@actions/core', () => core)
+
+const { annotateTest } = await import('../src/annotations.js')
+
+describe('annotations.ts', () => {
+  beforeEach(() => {
+    jest.resetAllMocks()
+  })
+
+  it('Emits an error annotation for a failed test', () => {
+    annotateTest(
+      {
+        id: 't1',
+        name: 'Checkout',
+        status: 'failed',
+        failedStep: 'Click pay',
+        error: 'Element not found'
+      },
+      'https://app.desplega.ai/runs/run-1/tests/t1'
+    )
+
+    expect(core.error).toHaveBeenCalledWith(
+      'Step: Click pay\nElement not found\nDetails: https://app.desplega.ai/runs/run-1/tests/t1',
+      { title: 'Failed test: Checkout' }
+    )
+    expect(core.warning).not.toHaveBeenCalled()
+  })
+
+  it('Emits a warning annotation for a flaky test', () => {
+    annotateTest({ id: 't2', status: 'flaky', error: 'Timed out once' })
+
+    expect(core.warning).toHaveBeenCalledWith('Timed out once', {
+      title: 'Flaky test: t2'
+    })
+    expect(core.error).not.toHaveBeenCalled()
+  })
+
+  it('Falls back to the status when there is no error message', () => {
+    annotateTest({ id: 't3', name: 'Search', status: 'error' })
+
+    expect(core.error).toHaveBeenCalledWith('Test error', {
+      title: 'Failed test: Search'
+    })
+  })
+
+  it.each(['pending', 'running', 'passed', 'skipped'])(
+    'Ignores tests with status: %s',
+    (status) => {
+      annotateTest({ id: 't4', status })
+
+      expect(core.error).not.toHaveBeenCalled()
+      expect(core.warning).not.toHaveBeenCalled()
+    }
+  )
+})
@@ -0,0 +1,229 @@
+/**
+ * Unit tests for src/artifacts.ts
+ */
+import { jest } from '@jest/globals'
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import * as core from '../__fixtures__/core.js'
+
+const fetchMock = jest.fn<typeof fetch>()
+global.fetch = fetchMock
+
+jest.unstable_mockModule('@actions/core', () => core)
+
+const { DesplegaClient } = await import('../src/desplega.js')
+const { downloadArtifacts, safeFileName } = await import('../src/artifacts.js')
+const { RunResults } = await import('../src/results.js')
+
+describe('artifacts.ts', () => {
+  const originUrl = 'https://test-origin.com'
+  const runUrl = `${originUrl}/external/actions/run/run-1`
+  const client = new DesplegaClient(originUrl, 'key')
+  let tempDir: string
+
+  function sampleResults(): InstanceType<typeof RunResults> {
+    const results = new RunResults('run-1')
+
+    results.recordTestEvent({
+      test_id: 't1',
+      test_name: 'Login',
+      status: 'passed'
+    })
+    results.recordTestEvent({
+      test_id: 't2',
+      test_name: 'Checkout / pay',
+      test_suite_id: 'suite-1',
+      status: 'failed'
+    })
+
+    return results
+  }
+
+  function mockApi(routes: Record<string, () => Response | Error>): void {
+    fetchMock.mockImplementation(async (url) => {
+      const route = routes[String(url)]
+      if (!route) return new Response('Not found', { status: 404 })
+
+      const response = route()
+      if (response instanceof Error) throw response
+      return response
+    })
+  }
+
+  beforeEach(() => {
+    jest.resetAllMocks()
+    tempDir = mkdtempSync(path.join(tmpdir(), 'artifacts-'))
+  })
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  it('Makes names safe to write', () => {
+    expect(safeFileName('failure.png')).toBe('failure.png')
+    expect(safeFileName('../../etc/passwd')).toBe('etc_passwd')
+    expect(safeFileName('Checkout / pay')).toBe('Checkout_pay')
+    expect(safeFileName('trace.zip\u0000.sh')).toBe('trace.zip.sh')
+    expect(safeFileName('..')).toBe('artifact')
+    expect(safeFileName('', 'test')).toBe('test')
+    expect(safeFileName('CON')).toBe('_CON')
+    expect(safeFileName('nul.txt')).toBe('_nul.txt')
+    expect(safeFileName('com1.tar.gz')).toBe('_com1.tar.gz')
+    expect(safeFileName('console.log')).toBe('console.log')
+    expect(safeFileName(`${'a'.repeat(200)}.webm`)).toBe(
+      `${'a'.repeat(80)}.webm`
+    )
+  })
+
+  it('Downloads the artifacts of failed tests and writes a manifest', async () => {
+    mockApi({
+      [`${runUrl}/tests/t2/artifacts`]: () =>
+        Response.json({
+          artifacts: [
+            {
+              id: 'a1',
+              name: 'failure.png',
+              type: 'screenshot',
+              content_type: 'image/png',
+              size: 3
+            },
+            { id: 'a2', name: 'failure.png', type: 'screenshot' }
+          ]
+        }),
+      [`${runUrl}/artifacts/a1`]: () => new Response('png'),
+      [`${runUrl}/artifacts/a2`]: () => new Response('second')
+    })
+    const dir = path.join(tempDir, 'out')
+
+    const manifest = await downloadArtifacts(client, sampleResults(), dir)
+
+    expect(manifest).toEqual({
+      runId: 'run-1',
+      artifacts: [
+        {
+          testId: 't2',
+          testName: 'Checkout / pay',
+          suiteId: 'suite-1',
+          runId: 'run-1',
+          id: 'a1',
+          name: 'failure.png',
+          type: 'screenshot',
+          contentType: 'image/png',
+          size: 3,
+          path: 'Checkout_pay/failure.png'
+        },
+        expect.objectContaining({
+          id: 'a2',
+          size: 6,
+          path: 'Checkout_pay/failure-2.png'
+        })
+      ],
+      skipped: []
+    })
+    expect(
+      readFileSync(path.join(dir, 'Checkout_pay', 'failure.png'), 'utf8')
+    ).toBe('png')
+    expect(
+      JSON.parse(readFileSync(path.join(dir, 'manifest.json'), 'utf8'))
+    ).toEqual(JSON.parse(JSON.stringify(manifest)))
+    expect(core.setOutput).toHaveBeenCalledWith(
+      'artifactsManifest',
+      path.join(dir, 'manifest.json')
+    )
+
+    // Passed tests are not looked at
+    expect(fetchMock).not.toHaveBeenCalledWith(
+      `${runUrl}/tests/t1/artifacts`,
+      expect.anything()
+    )
+  })
+
+  it('Skips artifacts that are too large', async () => {
+    mockApi({
+      [`${runUrl}/tests/t2/artifacts`]: () =>
+        Response.json({
+          artifacts: [
+            { id: 'a1', name: 'video.webm', size: 200 * 1024 * 1024 },
+            { id: 'a2', name: 'trace.zip' }
+          ]
+        }),
+      [`${runUrl}/artifacts/a2`]: () =>
+        new Response('zip', {
+          headers: { 'Content-Length': String(150 * 1024 * 1024) }
+        })
+    })
+
+    const manifest = await downloadArtifacts(client, sampleResults(), tempDir)
+
+    expect(manifest?.artifacts).toEqual([])
+    expect(manifest?.skipped).toEqual([
+      {
+        testId: 't2',
+        id: 'a1',
+        name: 'video.webm',
+        reason: 'larger than 100 MB'
+      },
+      {
+        testId: 't2',
+        id: 'a2',
+        name: 'trace.zip',
+        reason: 'larger than 100 MB'
+      }
+    ])
+    expect(fetchMock).not.toHaveBeenCalledWith(
+      `${runUrl}/artifacts/a1`,
+      expect.anything()
+    )
+    expect(existsSync(path.join(tempDir, 'Checkout_pay', 'trace.zip'))).toBe(
+      false
+    )
+  })
+
+  it('Warns about failed downloads and keeps going', async () => {
+    mockApi({
+      [`${runUrl}/tests/t2/artifacts`]: () =>
+        Response.json({
+          artifacts: [
+            { id: 'a1', name: 'failure.png' },
+            { id: 'a2', name: 'trace.zip' }
+          ]
+        }),
+      [`${runUrl}/artifacts/a1`]: () => new TypeError('fetch failed'),
+      [`${runUrl}/artifacts/a2`]: () => new Response('zip')
+    })
+
+    const manifest = await downloadArtifacts(client, sampleResults(), tempDir)
+
+    expect(manifest?.artifacts).toEqual([
+      expect.objectContaining({ id: 'a2', path: 'Checkout_pay/trace.zip' })
+    ])
+    expect(manifest?.skipped).toEqual([
+      { testId: 't2', id: 'a1', name: 'failure.png', reason: 'fetch failed' }
+    ])
+    expect(core.warning).toHaveBeenCalledWith(
+      'Skipping artifact failure.png of test Checkout / pay: fetch failed'
+    )
+  })
+
+  it('Warns when the artifacts of a test cannot be listed', async () => {
+    mockApi({
+      [`${runUrl}/tests/t2/artifacts`]: () =>
+        new Response('Forbidden', { status: 403 })
+    })
+
+    const manifest = await downloadArtifacts(client, sampleResults(), tempDir)
+
+    expect(manifest?.skipped).toEqual([
+      {
+        testId: 't2',
+        id: undefined,
+        name: undefined,
+        reason: '403 Forbidden'
+      }
+    ])
+    expect(core.warning).toHaveBeenCalledWith(
+      'Skipping the artifacts of test Checkout / pay: 403 Forbidden'
+    )
+  })
+})
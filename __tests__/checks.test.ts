@@ -0,0 +1,173 @@
+/**
+ * Unit tests for src/checks.ts, against a local stub of the GitHub API
+ */
+import { jest } from '@jest/globals'
+import { createServer, Server } from 'node:http'
+import { AddressInfo } from 'node:net'
+import * as core from '../__fixtures__/core.js'
+
+jest.unstable_mockModule('@actions/core', () => core)
+
+const { SuiteCheckRuns, startCheckRuns } = await import('../src/checks.js')
+const { GitHubClient } = await import('../src/github.js')
+const { RunResults } = await import('../src/results.js')
+
+describe('checks.ts', () => {
+  const env = { ...process.env }
+  const repository = { owner: 'octo', repo: 'app' }
+  let server: Server
+  let client: InstanceType<typeof GitHubClient>
+  let requests: Array<{
+    method?: string
+    url?: string
+    body: Record<string, unknown>
+  }>
+  let failCreate: boolean
+
+  beforeAll(async () => {
+    let nextId = 1
+
+    server = createServer((req, res) => {
+      let body = ''
+      req.on('data', (chunk) => (body += chunk))
+      req.on('end', () => {
+        requests.push({
+          method: req.method,
+          url: req.url,
+          body: JSON.parse(body)
+        })
+        res.setHeader('Content-Type', 'application/json')
+
+        if (req.method === 'POST' && failCreate) {
+          res.statusCode = 403
+          res.end('{"message":"Forbidden"}')
+        } else if (req.method === 'POST') {
+          res.end(JSON.stringify({ id: nextId++ }))
+        } else {
+          res.end(JSON.stringify({ id: Number(req.url?.split('/').pop()) }))
+        }
+      })
+    })
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    client = new GitHubClient(
+      'gh-token',
+      `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+    )
+  })
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  beforeEach(() => {
+    jest.resetAllMocks()
+    requests = []
+    failCreate = false
+  })
+
+  afterEach(() => {
+    process.env = { ...env }
+  })
+
+  it('Follows suite events and completes with a conclusion per suite', async () => {
+    const results = new RunResults('run-1', 'https://app.desplega.ai', [
+      'suite-1',
+      'suite-2'
+    ])
+    const checks = new SuiteCheckRuns(client, repository, 'abc123', results)
+
+    results.recordSuiteEvent({ status: 'pending', test_suite_id: 'suite-1' })
+    results.recordSuiteEvent({ status: 'running', test_suite_id: 'suite-1' })
+    results.recordSuiteEvent({ status: 'running', test_suite_id: 'suite-2' })
+    results.recordTestEvent({
+      test_id: 't1',
+      test_name: 'Checkout',
+      test_suite_id: 'suite-1',
+      status: 'failed',
+      failed_step: 'Click pay',
+      error: 'Element not found'
+    })
+    results.recordTestEvent({
+      test_id: 't2',
+      test_name: 'Login',
+      test_suite_id: 'suite-2',
+      status: 'passed',
+      elapsed: 1.5
+    })
+    results.recordSuiteEvent({ status: 'failed', test_suite_id: 'suite-1' })
+    results.recordSuiteEvent({ status: 'passed', test_suite_id: 'suite-2' })
+
+    await checks.complete()
+
+    expect(requests.map(({ method, url }) => `${method} ${url}`)).toEqual([
+      'POST /repos/octo/app/check-runs',
+      'POST /repos/octo/app/check-runs',
+      'PATCH /repos/octo/app/check-runs/1',
+      'PATCH /repos/octo/app/check-runs/2',
+      'PATCH /repos/octo/app/check-runs/1',
+      'PATCH /repos/octo/app/check-runs/2'
+    ])
+    expect(requests[0].body).toEqual({
+      name: 'desplega.ai / suite-1',
+      head_sha: 'abc123',
+      status: 'queued',
+      details_url: 'https://app.desplega.ai/runs/run-1',
+      external_id: 'run-1'
+    })
+    expect(requests[2].body).toMatchObject({ status: 'in_progress' })
+    expect(requests[4].body).toMatchObject({
+      status: 'completed',
+      conclusion: 'failure',
+      output: {
+        title: '0 passed, 1 failed, 0 flaky',
+        summary: expect.stringContaining(
+          '| Checkout | ❌ failed | - | Click pay: Element not found |'
+        )
+      }
+    })
+    expect(requests[5].body).toMatchObject({
+      status: 'completed',
+      conclusion: 'success',
+      output: { title: '1 passed, 0 failed, 0 flaky' }
+    })
+  })
+
+  it('Creates check runs for suites first seen in events', async () => {
+    const results = new RunResults('run-1')
+    const checks = new SuiteCheckRuns(client, repository, 'abc123', results)
+
+    results.recordSuiteEvent({ status: 'running', test_suite_id: 'suite-9' })
+    await checks.complete()
+
+    expect(requests[0].body).toMatchObject({
+      name: 'desplega.ai / suite-9',
+      status: 'in_progress',
+      started_at: expect.any(String)
+    })
+    expect(requests[1].body).toMatchObject({ conclusion: 'timed_out' })
+  })
+
+  it('Warns and carries on when a check run cannot be created', async () => {
+    failCreate = true
+    const results = new RunResults('run-1', undefined, ['suite-1'])
+    const checks = new SuiteCheckRuns(client, repository, 'abc123', results)
+
+    results.recordSuiteEvent({ status: 'running', test_suite_id: 'suite-1' })
+    await checks.complete()
+
+    expect(requests).toHaveLength(1)
+    expect(core.warning).toHaveBeenCalledWith(
+      'Failed to create the check run for suite suite-1: GitHub API request POST /repos/octo/app/check-runs failed: 403 {"message":"Forbidden"}'
+    )
+  })
+
+  it('Skips check runs outside of GitHub Actions', () => {
+    delete process.env.GITHUB_REPOSITORY
+
+    expect(startCheckRuns(new RunResults('run-1'), 'gh-token')).toBeUndefined()
+    expect(core.warning).toHaveBeenCalledWith(
+      'Unable to determine the repository or commit, skipping check runs'
+    )
+  })
+})
@@ -0,0 +1,162 @@
+/**
+ * Unit tests for the post step, src/cleanup.ts
+ */
+import { jest } from '@jest/globals'
+import * as core from '../__fixtures__/core.js'
+import * as junit from '../__fixtures__/junit.js'
+import * as summary from '../__fixtures__/summary.js'
+
+const fetchMock = jest.fn<typeof fetch>()
+global.fetch = fetchMock
+
+jest.unstable_mockModule('@actions/core', () => core)
+jest.unstable_mockModule('../src/summary.js', () => summary)
+jest.unstable_mockModule('../src/junit.js', () => junit)
+
+const { cleanup } = await import('../src/cleanup.js')
+
+describe('cleanup.ts', () => {
+  const originUrl = 'https://test-origin.com'
+  const statusUrl = `${originUrl}/external/actions/run/run-1/status`
+  const cancelUrl = `${originUrl}/external/actions/run/run-1/cancel`
+
+  function mockState(state: Record<string, string>): void {
+    core.getState.mockImplementation((name) => state[name] ?? '')
+  }
+
+  function mockStatus(response: Response | Error): void {
+    fetchMock.mockImplementation(async (url) => {
+      if (url === statusUrl) {
+        if (response instanceof Error) throw response
+        return response
+      }
+      return new Response(null, { status: 200 })
+    })
+  }
+
+  function requestedUrls(): unknown[] {
+    return fetchMock.mock.calls.map(([url]) => url)
+  }
+
+  beforeEach(() => {
+    jest.resetAllMocks()
+
+    core.getInput.mockImplementation((name) => {
+      if (name === 'apiKey') return 'test-api-key'
+      if (name === 'junitPath') return 'junit.xml'
+      return ''
+    })
+    mockState({
+      runId: 'run-1',
+      originUrl,
+      startTime: '2025-05-21T21:45:33.000Z'
+    })
+  })
+
+  it('Does nothing when no run was started', async () => {
+    mockState({})
+
+    await cleanup()
+
+    expect(fetchMock).not.toHaveBeenCalled()
+    expect(summary.writeJobSummary).not.toHaveBeenCalled()
+  })
+
+  it('Does nothing when the main step finished', async () => {
+    mockState({ runId: 'run-1', originUrl, finished: 'true' })
+
+    await cleanup()
+
+    expect(fetchMock).not.toHaveBeenCalled()
+    expect(junit.writeJUnitReport).not.toHaveBeenCalled()
+  })
+
+  it('Cancels an active run and writes the reports', async () => {
+    mockStatus(
+      Response.json({
+        status: 'running',
+        test_suite_id: 'suite-1',
+        tests: [{ test_id: 't1', test_name: 'Login', status: 'passed' }]
+      })
+    )
+
+    await cleanup()
+
+    expect(requestedUrls()).toEqual([statusUrl, cancelUrl])
+    expect(fetchMock).toHaveBeenCalledWith(
+      cancelUrl,
+      expect.objectContaining({
+        method: 'POST',
+        headers: { 'X-Api-Key': 'test-api-key' }
+      })
+    )
+
+    const [results] = summary.writeJobSummary.mock.calls[0]
+    expect(results.status).toBe('cancelled')
+    expect(results.startTime).toBe('2025-05-21T21:45:33.000Z')
+    expect(results.testResults).toEqual([
+      { id: 't1', name: 'Login', suiteId: undefined, status: 'passed' }
+    ])
+    expect(junit.writeJUnitReport).toHaveBeenCalledWith(results, 'junit.xml')
+  })
+
+  it('Cleans up every run of a parallel fan-out', async () => {
+    mockState({ runId: 'run-1,run-2', originUrl })
+    fetchMock.mockImplementation(async (url) => {
+      if (url === statusUrl) {
+        return Response.json({ status: 'running', test_suite_id: 'suite-1' })
+      } else if (String(url).endsWith('/run-2/status')) {
+        return Response.json({ status: 'passed', test_suite_id: 'suite-2' })
+      }
+      return new Response(null, { status: 200 })
+    })
+
+    await cleanup()
+
+    expect(requestedUrls()).toContain(cancelUrl)
+    expect(requestedUrls()).not.toContain(
+      `${originUrl}/external/actions/run/run-2/cancel`
+    )
+
+    const [results] = summary.writeJobSummary.mock.calls[0]
+    expect(Object.fromEntries(results.suiteStatuses)).toEqual({
+      'suite-1': 'cancelled',
+      'suite-2': 'passed'
+    })
+  })
+
+  it('Only writes the reports when the run already ended', async () => {
+    mockStatus(Response.json({ status: 'failed' }))
+
+    await cleanup()
+
+    expect(requestedUrls()).toEqual([statusUrl])
+    expect(summary.writeJobSummary).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'failed' })
+    )
+  })
+
+  it('Cancels the run when its status is unknown', async () => {
+    mockStatus(new TypeError('fetch failed'))
+
+    await cleanup()
+
+    expect(core.warning).toHaveBeenCalledWith(
+      'Failed to fetch the status of run run-1: fetch failed'
+    )
+    expect(requestedUrls()).toEqual([statusUrl, cancelUrl])
+  })
+
+  it('Never fails the job', async () => {
+    core.getInput.mockImplementation(() => {
+      throw new Error('Input required and not supplied: apiKey')
+    })
+
+    await cleanup()
+
+    expect(core.warning).toHaveBeenCalledWith(
+      'Cleanup failed: Input required and not supplied: apiKey'
+    )
+    expect(core.setFailed).not.toHaveBeenCalled()
+  })
+})
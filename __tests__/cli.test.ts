@@ -0,0 +1,165 @@
+/**
+ * Unit tests for the command line interface, src/cli.ts
+ */
+import { jest } from '@jest/globals'
+import { cli, EXIT_CODES, parseCliArgs } from '../src/cli.js'
+
+const fetchMock = jest.fn<typeof fetch>()
+global.fetch = fetchMock
+
+describe('cli.ts', () => {
+  const originUrl = 'https://test-origin.com'
+  const runId = 'run-1'
+  let stdout: string
+  let stderr: string
+
+  async function runCli(
+    argv: string[],
+    env: Record<string, string> = {}
+  ): Promise<number> {
+    return cli(argv, {
+      env,
+      stdout: { write: (text: string) => (stdout += text) },
+      stderr: { write: (text: string) => (stderr += text) }
+    })
+  }
+
+  function mockApi(events: string): void {
+    fetchMock.mockImplementation(async (url) => {
+      switch (url) {
+        case `${originUrl}/version`:
+          return Response.json({ version: '1.4.2' })
+        case `${originUrl}/external/actions/trigger`:
+          return Response.json({ run_id: runId })
+        case `${originUrl}/external/actions/run/${runId}/events`:
+          return new Response(events)
+        case `${originUrl}/external/actions/run/${runId}/status`:
+          return Response.json({ status: 'running' })
+        default:
+          return new Response(null, { status: 204 })
+      }
+    })
+  }
+
+  beforeEach(() => {
+    jest.resetAllMocks()
+    stdout = ''
+    stderr = ''
+  })
+
+  it('Reads inputs from flags, environment variables and defaults', () => {
+    const args = parseCliArgs(
+      [
+        '--suite-ids',
+        's1,s2',
+        '--env',
+        'A=1',
+        '--env',
+        'B=2',
+        '--fail-fast',
+        '--no-block',
+        '-v'
+      ],
+      { DESPLEGA_API_KEY: 'key', DESPLEGA_SUITE_IDS: 'ignored' }
+    )
+
+    expect(args.inputs).toMatchObject({
+      apiKey: 'key',
+      suiteIds: 's1,s2',
+      env: 'A=1\nB=2',
+      failFast: 'true',
+      block: 'false',
+      sendMetadata: '',
+      originUrl: 'https://api.desplega.ai',
+      jobSummary: 'false'
+    })
+    expect(args.verbose).toBe(true)
+  })
+
+  it('Shows the help', async () => {
+    expect(await runCli(['--help'])).toBe(0)
+    expect(stdout).toContain('Usage: desplega [options]')
+    expect(stdout).toContain('--no-block')
+  })
+
+  it('Fails on invalid arguments', async () => {
+    expect(await runCli(['--bogus'])).toBe(EXIT_CODES.error)
+    expect(stderr).toContain('Usage: desplega [options]')
+  })
+
+  it('Fails without an API key', async () => {
+    expect(await runCli(['--suite-ids', 's1'])).toBe(EXIT_CODES.error)
+    expect(stderr).toContain(
+      'Missing API key, set --api-key or DESPLEGA_API_KEY'
+    )
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it('Exits with 0 when the run passes', async () => {
+    mockApi(
+      'event: test_run.event\ndata: {"status": "passed", "test_id": "t1"}\n\n' +
+        'event: test_suite_run.event\ndata: {"status": "passed", "elapsed": 4.2}\n\n'
+    )
+
+    const code = await runCli(
+      ['--origin-url', originUrl, '--suite-ids', 's1', '--no-color'],
+      { DESPLEGA_API_KEY: 'secret-key' }
+    )
+
+    expect(code).toBe(0)
+    expect(stdout).toContain('Run ID: run-1')
+    expect(stdout).toContain(
+      '✅ Run run-1 passed: 1 passed, 0 failed, 0 flaky in 4.2s'
+    )
+    expect(stdout).toContain('https://app.desplega.ai/runs/run-1')
+    expect(stderr).toBe('')
+  })
+
+  it('Exits with 1 when tests fail', async () => {
+    mockApi(
+      'event: test_run.event\ndata: {"status": "failed", "test_id": "t1", "test_name": "Login", "error": "Boom"}\n\n' +
+        'event: test_suite_run.event\ndata: {"status": "failed"}\n\n'
+    )
+
+    const code = await runCli(['--suite-ids', 's1'], {
+      DESPLEGA_API_KEY: 'key',
+      DESPLEGA_ORIGIN_URL: originUrl
+    })
+
+    expect(code).toBe(EXIT_CODES.failed)
+    expect(stderr).toContain('✖ Failed test: Login\nBoom')
+    expect(stderr).toContain(
+      '✖ Test suite execution failed with status: failed'
+    )
+  })
+
+  it('Exits with 3 when the run times out', async () => {
+    mockApi('')
+
+    const code = await runCli(
+      ['--suite-ids', 's1', '--transport', 'poll', '--timeout', '1'],
+      { DESPLEGA_API_KEY: 'key', DESPLEGA_ORIGIN_URL: originUrl }
+    )
+
+    expect(code).toBe(EXIT_CODES.timeout)
+    expect(stderr).toContain(
+      'Timed out after 1s waiting for test suite completion'
+    )
+  })
+
+  it('Exits with 2 when the run cannot be triggered', async () => {
+    fetchMock.mockImplementation(async (url) =>
+      url === `${originUrl}/version`
+        ? Response.json({ version: '1.4.2' })
+        : new Response('Forbidden', { status: 403 })
+    )
+
+    const code = await runCli(['--suite-ids', 's1'], {
+      DESPLEGA_API_KEY: 'key',
+      DESPLEGA_ORIGIN_URL: originUrl
+    })
+
+    expect(code).toBe(EXIT_CODES.error)
+    expect(stderr).toContain('✖ Failed to trigger action: 403 Forbidden')
+  })
+})
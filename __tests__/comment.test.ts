@@ -0,0 +1,256 @@
+/**
+ * Unit tests for src/comment.ts, against a local stub of the GitHub API
+ */
+import { jest } from '@jest/globals'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { createServer, Server } from 'node:http'
+import { AddressInfo } from 'node:net'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import * as core from '../__fixtures__/core.js'
+import { GitHubUser } from '../src/github.js'
+
+jest.unstable_mockModule('@actions/core', () => core)
+
+const { buildCommentBody, postPullRequestComment } = await import(
+  '../src/comment.js'
+)
+const { RunResults } = await import('../src/results.js')
+
+describe('comment.ts', () => {
+  const env = { ...process.env }
+  let tempDir: string
+  let server: Server
+  let comments: Array<{ id: number; body: string; user: GitHubUser }>
+  let requests: string[]
+  let failWith: number | undefined
+  // The user of the token, undefined for GitHub App tokens like GITHUB_TOKEN
+  let tokenUser: GitHubUser | undefined
+
+  function sampleResults(): InstanceType<typeof RunResults> {
+    const results = new RunResults('run-1', 'https://app.desplega.ai')
+
+    results.recordSuiteEvent({
+      status: 'failed',
+      test_suite_id: 'suite-1',
+      test_ids: ['t1', 't2', 't3']
+    })
+    results.recordTestEvent({
+      test_id: 't1',
+      test_name: 'Login',
+      status: 'passed'
+    })
+    results.recordTestEvent({
+      test_id: 't2',
+      test_name: 'Checkout',
+      status: 'failed',
+      failed_step: 'Click pay',
+      error: 'Element not found\n  at step 3'
+    })
+    results.recordTestEvent({
+      test_id: 't3',
+      test_name: 'Search',
+      status: 'flaky'
+    })
+
+    return results
+  }
+
+  beforeAll(async () => {
+    tempDir = mkdtempSync(path.join(tmpdir(), 'comment-'))
+
+    server = createServer((req, res) => {
+      let body = ''
+      req.on('data', (chunk) => (body += chunk))
+      req.on('end', () => {
+        requests.push(`${req.method} ${req.url}`)
+        res.setHeader('Content-Type', 'application/json')
+
+        if (failWith) {
+          res.statusCode = failWith
+          res.end('{"message":"Forbidden"}')
+        } else if (req.url === '/user') {
+          res.statusCode = tokenUser ? 200 : 403
+          res.end(JSON.stringify(tokenUser ?? { message: 'Forbidden' }))
+        } else if (req.method === 'GET') {
+          res.end(JSON.stringify(comments))
+        } else {
+          const id =
+            Number(req.url?.split('/').pop()) || 100 + comments.length - 1
+          const user = tokenUser ?? {
+            login: 'github-actions[bot]',
+            type: 'Bot'
+          }
+          const comment = { id, body: JSON.parse(body).body, user }
+          comments = [...comments.filter((c) => c.id !== id), comment]
+          res.end(
+            JSON.stringify({ ...comment, html_url: `https://gh/c/${id}` })
+          )
+        }
+      })
+    })
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  })
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve))
+    rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  beforeEach(() => {
+    jest.resetAllMocks()
+    comments = [
+      {
+        id: 1,
+        body: 'Looks good to me',
+        user: { login: 'octocat', type: 'User' }
+      }
+    ]
+    requests = []
+    failWith = undefined
+    tokenUser = undefined
+
+    const eventPath = path.join(tempDir, 'event.json')
+    writeFileSync(eventPath, JSON.stringify({ pull_request: { number: 7 } }))
+
+    process.env.GITHUB_API_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+    process.env.GITHUB_EVENT_NAME = 'pull_request'
+    process.env.GITHUB_EVENT_PATH = eventPath
+    process.env.GITHUB_REPOSITORY = 'octo/app'
+    process.env.GITHUB_SHA = '0123456789abcdef'
+    process.env.GITHUB_WORKFLOW = 'CI'
+    process.env.GITHUB_JOB = 'e2e'
+  })
+
+  afterEach(() => {
+    process.env = { ...env }
+  })
+
+  it('Builds a comment with counts, failing tests and links', () => {
+    const body = buildCommentBody(sampleResults())
+
+    expect(body).toContain('<!-- desplega.ai-action CI/e2e -->')
+    expect(body).toContain('### ❌ desplega.ai run failed')
+    expect(body).toContain('| 1 | 1 | 1 | 3 |')
+    expect(body).toContain(
+      '- **Checkout** — Click pay: Element not found at step 3 ([details](https://app.desplega.ai/runs/run-1/tests/t2))'
+    )
+    expect(body).toContain(
+      '[View the run in desplega.ai](https://app.desplega.ai/runs/run-1) · Run `run-1` · commit 0123456'
+    )
+  })
+
+  it('Links the head commit of the pull request, not the merge commit', () => {
+    writeFileSync(
+      process.env.GITHUB_EVENT_PATH!,
+      JSON.stringify({
+        pull_request: { number: 7, head: { sha: 'fedcba9876543210' } }
+      })
+    )
+
+    const body = buildCommentBody(sampleResults())
+
+    expect(body).toContain('· commit fedcba9')
+    expect(body).not.toContain('0123456')
+  })
+
+  it('Leaves out the failing tests section when nothing failed', () => {
+    const results = new RunResults('run-1')
+    results.recordSuiteEvent({ status: 'passed', test_ids: ['t1'] })
+    results.recordTestEvent({ test_id: 't1', status: 'passed' })
+
+    const body = buildCommentBody(results)
+
+    expect(body).toContain('### ✅ desplega.ai run passed')
+    expect(body).not.toContain('Failing tests')
+  })
+
+  it('Creates the comment, then updates it in place', async () => {
+    await postPullRequestComment(sampleResults(), 'gh-token')
+
+    const results = new RunResults('run-2')
+    results.recordSuiteEvent({ status: 'passed' })
+    await postPullRequestComment(results, 'gh-token')
+
+    expect(requests).toEqual([
+      'GET /repos/octo/app/issues/7/comments?per_page=100&page=1',
+      'GET /user',
+      'POST /repos/octo/app/issues/7/comments',
+      'GET /repos/octo/app/issues/7/comments?per_page=100&page=1',
+      'GET /user',
+      'PATCH /repos/octo/app/issues/comments/100'
+    ])
+    expect(comments).toHaveLength(2)
+    expect(comments[1].body).toContain('Run `run-2`')
+    expect(core.info).toHaveBeenCalledWith(
+      'Results comment posted: https://gh/c/100'
+    )
+  })
+
+  it('Keeps a comment per job on the same pull request', async () => {
+    await postPullRequestComment(sampleResults(), 'gh-token')
+    process.env.GITHUB_JOB = 'smoke'
+    await postPullRequestComment(sampleResults(), 'gh-token')
+    await postPullRequestComment(sampleResults(), 'gh-token', 'chrome')
+
+    const results = new RunResults('run-2')
+    results.recordSuiteEvent({ status: 'passed' })
+    await postPullRequestComment(results, 'gh-token')
+
+    expect(comments.map((comment) => comment.body.split('\n')[0])).toEqual([
+      'Looks good to me',
+      '<!-- desplega.ai-action CI/e2e -->',
+      '<!-- desplega.ai-action CI/smoke/chrome -->',
+      '<!-- desplega.ai-action CI/smoke -->'
+    ])
+    expect(comments[1].body).toContain('Run `run-1`')
+    expect(comments[3].body).toContain('Run `run-2`')
+  })
+
+  it('Leaves alone comments of other users that quote the marker', async () => {
+    comments.push({
+      id: 2,
+      body: 'Why did this fail?\n> <!-- desplega.ai-action CI/e2e -->',
+      user: { login: 'octocat', type: 'User' }
+    })
+
+    await postPullRequestComment(sampleResults(), 'gh-token')
+
+    expect(requests).toContain('POST /repos/octo/app/issues/7/comments')
+    expect(requests).not.toContain('PATCH /repos/octo/app/issues/comments/2')
+  })
+
+  it('Updates the comments of the user a personal token belongs to', async () => {
+    tokenUser = { login: 'release-bot', type: 'User' }
+    comments.push({
+      id: 2,
+      body: '<!-- desplega.ai-action CI/e2e -->\nOld results',
+      user: tokenUser
+    })
+
+    await postPullRequestComment(sampleResults(), 'gh-token')
+
+    expect(requests).toContain('PATCH /repos/octo/app/issues/comments/2')
+    expect(comments).toHaveLength(2)
+  })
+
+  it('Skips events other than pull requests', async () => {
+    process.env.GITHUB_EVENT_NAME = 'push'
+
+    await postPullRequestComment(sampleResults(), 'gh-token')
+
+    expect(requests).toEqual([])
+  })
+
+  it('Warns when the comment cannot be posted', async () => {
+    failWith = 403
+
+    await postPullRequestComment(sampleResults(), 'gh-token')
+
+    expect(core.warning).toHaveBeenCalledWith(
+      'Failed to post the results comment: GitHub API request GET /repos/octo/app/issues/7/comments?per_page=100&page=1 failed: 403 {"message":"Forbidden"}'
+    )
+    expect(core.setFailed).not.toHaveBeenCalled()
+  })
+})
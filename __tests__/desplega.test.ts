@@ -0,0 +1,256 @@
+/**
+ * Unit tests for src/desplega.ts and src/errors.ts
+ */
+import { jest } from '@jest/globals'
+import { DesplegaClient } from '../src/desplega.js'
+import {
+  errorReason,
+  HttpError,
+  isRetryable,
+  NetworkError,
+  TimeoutError
+} from '../src/errors.js'
+
+const fetchMock = jest.fn<typeof fetch>()
+global.fetch = fetchMock
+
+describe('desplega.ts', () => {
+  const originUrl = 'https://test-origin.com'
+  const client = new DesplegaClient(`${originUrl}/`, 'key')
+
+  beforeEach(() => {
+    jest.resetAllMocks()
+  })
+
+  it('Sends the API key', async () => {
+    fetchMock.mockResolvedValueOnce(Response.json({ version: '1.4.2' }))
+
+    expect(await client.version()).toEqual({ version: '1.4.2' })
+    expect(fetchMock).toHaveBeenCalledWith(`${originUrl}/version`, {
+      method: 'GET',
+      headers: { 'X-Api-Key': 'key' },
+      signal: undefined
+    })
+  })
+
+  it('Triggers runs with an idempotency key', async () => {
+    fetchMock.mockResolvedValueOnce(Response.json({ run_id: 'run-1' }))
+
+    const triggered = await client.trigger(
+      { suite_ids: ['s1'], fail_fast: true },
+      'key-1'
+    )
+
+    expect(triggered).toEqual({ runId: 'run-1', existing: false })
+    expect(fetchMock).toHaveBeenCalledWith(
+      `${originUrl}/external/actions/trigger`,
+      expect.objectContaining({
+        method: 'POST',
+        headers: {
+          'X-Api-Key': 'key',
+          'Content-Type': 'application/json',
+          'Idempotency-Key': 'key-1'
+        },
+        body: '{"suite_ids":["s1"],"fail_fast":true}'
+      })
+    )
+  })
+
+  it('Returns the existing run on a conflict', async () => {
+    fetchMock.mockResolvedValueOnce(
+      Response.json({ run_id: 'run-1' }, { status: 409 })
+    )
+
+    expect(await client.trigger({ fail_fast: false }, 'key-1')).toEqual({
+      runId: 'run-1',
+      existing: true
+    })
+  })
+
+  it('Fails on a conflict without a run ID', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('Conflict', { status: 409 }))
+
+    const error = await client
+      .trigger({ fail_fast: false }, 'key-1')
+      .catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(HttpError)
+    expect(error).toMatchObject({ status: 409, body: 'Conflict' })
+  })
+
+  it('Fails when no run ID is returned', async () => {
+    fetchMock.mockResolvedValueOnce(Response.json({}))
+
+    await expect(client.trigger({ fail_fast: false }, 'key-1')).rejects.toThrow(
+      'No run ID received from the trigger endpoint'
+    )
+  })
+
+  it('Resumes the event stream from the last event ID', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('data: {}\n\n'))
+
+    const body = await client.events('run-1', '42')
+
+    expect(body).toBeInstanceOf(ReadableStream)
+    expect(fetchMock).toHaveBeenCalledWith(
+      `${originUrl}/external/actions/run/run-1/events`,
+      expect.objectContaining({
+        headers: { 'X-Api-Key': 'key', 'Last-Event-ID': '42' }
+      })
+    )
+  })
+
+  it('Fetches the run status', async () => {
+    fetchMock.mockResolvedValueOnce(Response.json({ status: 'running' }))
+
+    expect(await client.status('run-1')).toEqual({ status: 'running' })
+    expect(fetchMock).toHaveBeenCalledWith(
+      `${originUrl}/external/actions/run/run-1/status`,
+      expect.objectContaining({ method: 'GET' })
+    )
+  })
+
+  it('Cancels runs', async () => {
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 204 }))
+
+    await client.cancel('run-1')
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      `${originUrl}/external/actions/run/run-1/cancel`,
+      expect.objectContaining({ method: 'POST' })
+    )
+  })
+
+  it('Does not send the API key to the hosts artifacts redirect to', async () => {
+    const storageUrl = 'https://storage.example.com/a1?signature=abc'
+    fetchMock
+      .mockResolvedValueOnce(
+        new Response(null, { status: 302, headers: { Location: storageUrl } })
+      )
+      .mockResolvedValueOnce(
+        new Response('png', { headers: { 'Content-Length': '3' } })
+      )
+
+    const { body, size } = await client.downloadArtifact('run-1', 'a1')
+
+    expect(await new Response(body).text()).toBe('png')
+    expect(size).toBe(3)
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      1,
+      `${originUrl}/external/actions/run/run-1/artifacts/a1`,
+      expect.objectContaining({
+        headers: { 'X-Api-Key': 'key' },
+        redirect: 'manual'
+      })
+    )
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      2,
+      storageUrl,
+      expect.objectContaining({ headers: {}, redirect: 'manual' })
+    )
+  })
+
+  it('Lists suites', async () => {
+    const suites = [{ id: 's1', name: 'Checkout', tags: ['smoke'] }]
+    fetchMock.mockResolvedValueOnce(Response.json({ suites }))
+
+    expect(await client.listSuites()).toEqual(suites)
+    expect(fetchMock).toHaveBeenCalledWith(
+      `${originUrl}/external/actions/suites`,
+      expect.objectContaining({ method: 'GET' })
+    )
+  })
+
+  it('Throws an HttpError for non-2xx responses', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('Forbidden', { status: 403 }))
+
+    const error = await client.listSuites().catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(HttpError)
+    expect(error).toMatchObject({
+      message: 'Failed to list suites: 403 Forbidden',
+      action: 'list suites',
+      reason: '403 Forbidden',
+      status: 403,
+      body: 'Forbidden'
+    })
+    expect(isRetryable(error)).toBe(false)
+  })
+
+  it('Reads how long to wait from Retry-After', async () => {
+    fetchMock.mockResolvedValueOnce(
+      new Response('Slow down', {
+        status: 429,
+        headers: { 'Retry-After': '3' }
+      })
+    )
+
+    const error = await client.version().catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(HttpError)
+    expect(error).toMatchObject({ status: 429, retryAfterMs: 3000 })
+    expect(isRetryable(error)).toBe(true)
+  })
+
+  it('Throws a NetworkError when there is no response', async () => {
+    const cause = new TypeError('fetch failed')
+    fetchMock.mockRejectedValueOnce(cause)
+
+    const error = await client.status('run-1').catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(NetworkError)
+    expect(error).toMatchObject({
+      message: 'Failed to fetch the status of run run-1: fetch failed',
+      cause
+    })
+    expect(isRetryable(error)).toBe(true)
+  })
+
+  it('Throws a TimeoutError when the request takes too long', async () => {
+    fetchMock.mockImplementationOnce(
+      (_url, init) =>
+        new Promise((_resolve, reject) =>
+          init?.signal?.addEventListener('abort', () =>
+            reject(init.signal?.reason)
+          )
+        )
+    )
+
+    const error = await client
+      .cancel('run-1', { timeoutMs: 10 })
+      .catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(TimeoutError)
+    expect(error).toMatchObject({
+      message: 'Failed to cancel run run-1: timed out after 0.01s',
+      timeoutMs: 10
+    })
+    expect(isRetryable(error)).toBe(true)
+  })
+
+  it('Keeps aborts requested by the caller', async () => {
+    const abortController = new AbortController()
+    abortController.abort()
+    fetchMock.mockRejectedValueOnce(abortController.signal.reason)
+
+    const error = await client
+      .status('run-1', { signal: abortController.signal, timeoutMs: 1000 })
+      .catch((e: unknown) => e)
+
+    expect(error).toHaveProperty('name', 'AbortError')
+    expect(isRetryable(error)).toBe(false)
+  })
+
+  it('Classifies errors', () => {
+    expect(isRetryable(new HttpError('trigger action', 503, ''))).toBe(true)
+    expect(isRetryable(new HttpError('trigger action', 429, ''))).toBe(true)
+    expect(isRetryable(new HttpError('trigger action', 409, ''))).toBe(false)
+    expect(isRetryable(new Error('fetch failed'))).toBe(false)
+
+    expect(errorReason(new HttpError('trigger action', 503, 'Busy'))).toBe(
+      '503 Busy'
+    )
+    expect(errorReason(new Error('Boom'))).toBe('Boom')
+    expect(errorReason('Boom')).toBe('unknown error')
+  })
+})
@@ -0,0 +1,133 @@
+/**
+ * Unit tests for src/github.ts, against a local stub of the GitHub API
+ */
+import { createServer, IncomingMessage, Server } from 'node:http'
+import { AddressInfo } from 'node:net'
+import { GitHubClient } from '../src/github.js'
+
+interface RecordedRequest {
+  method?: string
+  url?: string
+  headers: IncomingMessage['headers']
+  body: string
+}
+
+describe('github.ts', () => {
+  const repository = { owner: 'octo', repo: 'app' }
+  let server: Server
+  let baseUrl: string
+  let requests: RecordedRequest[]
+  let respond: (request: RecordedRequest) => { status?: number; body: unknown }
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = ''
+      req.on('data', (chunk) => (body += chunk))
+      req.on('end', () => {
+        const request = {
+          method: req.method,
+          url: req.url,
+          headers: req.headers,
+          body
+        }
+        requests.push(request)
+
+        const { status = 200, body: payload } = respond(request)
+        res.writeHead(status, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify(payload))
+      })
+    })
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  beforeEach(() => {
+    requests = []
+    respond = () => ({ body: {} })
+  })
+
+  it('Sends the token and API headers', async () => {
+    const client = new GitHubClient('gh-token', `${baseUrl}/`)
+
+    await client.request('GET', '/rate_limit')
+
+    expect(requests[0].url).toBe('/rate_limit')
+    expect(requests[0].headers).toMatchObject({
+      authorization: 'Bearer gh-token',
+      accept: 'application/vnd.github+json',
+      'x-github-api-version': '2022-11-28'
+    })
+  })
+
+  it('Defaults to GITHUB_API_URL', async () => {
+    process.env.GITHUB_API_URL = baseUrl
+
+    try {
+      await new GitHubClient('gh-token').request('GET', '/rate_limit')
+    } finally {
+      delete process.env.GITHUB_API_URL
+    }
+
+    expect(requests).toHaveLength(1)
+  })
+
+  it('Lists comments across pages', async () => {
+    respond = ({ url }) => {
+      const page = Number(new URL(url ?? '', baseUrl).searchParams.get('page'))
+      const size = page === 1 ? 100 : 3
+      return {
+        body: Array.from({ length: size }, (_, i) => ({
+          id: (page - 1) * 100 + i
+        }))
+      }
+    }
+
+    const comments = await new GitHubClient('t', baseUrl).listIssueComments(
+      repository,
+      7
+    )
+
+    expect(comments).toHaveLength(103)
+    expect(requests.map((request) => request.url)).toEqual([
+      '/repos/octo/app/issues/7/comments?per_page=100&page=1',
+      '/repos/octo/app/issues/7/comments?per_page=100&page=2'
+    ])
+  })
+
+  it('Creates and updates comments', async () => {
+    respond = () => ({ status: 201, body: { id: 42 } })
+    const client = new GitHubClient('t', baseUrl)
+
+    await client.createIssueComment(repository, 7, 'hello')
+    await client.updateIssueComment(repository, 42, 'updated')
+
+    expect(
+      requests.map(({ method, url, body }) => [method, url, body])
+    ).toEqual([
+      ['POST', '/repos/octo/app/issues/7/comments', '{"body":"hello"}'],
+      ['PATCH', '/repos/octo/app/issues/comments/42', '{"body":"updated"}']
+    ])
+  })
+
+  it('Throws on error responses', async () => {
+    respond = () => ({
+      status: 403,
+      body: { message: 'Resource not accessible by integration' }
+    })
+
+    const error = new GitHubClient('t', baseUrl)
+      .createIssueComment(repository, 7, 'hello')
+      .catch((e: Error) => e)
+
+    expect(await error).toEqual(
+      new Error(
+        'GitHub API request POST /repos/octo/app/issues/7/comments failed: 403 {"message":"Resource not accessible by integration"}'
+      )
+    )
+  })
+})
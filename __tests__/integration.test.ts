@@ -0,0 +1,165 @@
+/**
+ * Integration tests that run the CLI against the mock desplega.ai server over
+ * real HTTP, see __fixtures__/server.ts
+ */
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import {
+  MockDesplegaServer,
+  MockServerOptions,
+  Scenario
+} from '../__fixtures__/server.js'
+import { cli, EXIT_CODES } from '../src/cli.js'
+
+describe('integration', () => {
+  let server: MockDesplegaServer
+  let originUrl: string
+  let stdout: string
+  let stderr: string
+
+  async function startServer(
+    scenario: Scenario,
+    options: MockServerOptions = {}
+  ): Promise<void> {
+    server = new MockDesplegaServer({
+      scenario,
+      eventDelayMs: 10,
+      reconnectDelayMs: 10,
+      retryAfterSeconds: 0,
+      ...options
+    })
+    originUrl = await server.listen()
+  }
+
+  async function runCli(...argv: string[]): Promise<number> {
+    return cli(['--suite-ids', 'suite-1', '--no-color', ...argv], {
+      env: { DESPLEGA_API_KEY: 'mock-api-key', DESPLEGA_ORIGIN_URL: originUrl },
+      stdout: { write: (text: string) => (stdout += text) },
+      stderr: { write: (text: string) => (stderr += text) }
+    })
+  }
+
+  beforeEach(() => {
+    stdout = ''
+    stderr = ''
+  })
+
+  afterEach(async () => {
+    await server.close()
+  })
+
+  it('Passes', async () => {
+    await startServer('pass')
+    const tmpDir = mkdtempSync(path.join(tmpdir(), 'desplega-'))
+    const resultsPath = path.join(tmpDir, 'results.json')
+
+    try {
+      expect(await runCli('--results-path', resultsPath)).toBe(0)
+
+      expect(stdout).toContain('Using API version: 0.0.0-mock')
+      expect(stdout).toContain('✅ Run run-1 passed: 2 passed, 0 failed')
+      expect(stderr).toBe('')
+
+      const report = JSON.parse(readFileSync(resultsPath, 'utf8'))
+      expect(report).toMatchObject({
+        runId: 'run-1',
+        status: 'passed',
+        counts: { total: 2, passed: 2, failed: 0 }
+      })
+
+      const [trigger] = server.requestsTo('/external/actions/trigger')
+      expect(trigger.headers['x-api-key']).toBe('mock-api-key')
+      expect(JSON.parse(trigger.body)).toMatchObject({
+        suite_ids: ['suite-1']
+      })
+    } finally {
+      rmSync(tmpDir, { recursive: true, force: true })
+    }
+  })
+
+  it('Fails', async () => {
+    await startServer('fail')
+
+    expect(await runCli()).toBe(EXIT_CODES.failed)
+
+    expect(stderr).toContain(
+      '✖ Failed test: Checkout with a saved card\nStep: Click the "Pay now" button\nElement not found'
+    )
+    expect(stderr).toContain(
+      '✖ Test suite execution failed with status: failed'
+    )
+  })
+
+  it('Reruns a flaky test', async () => {
+    await startServer('flaky')
+
+    expect(await runCli('--rerun-failed', '1')).toBe(0)
+
+    expect(stdout).toContain('1 passed, 0 failed, 1 flaky')
+    expect(stderr).toContain(
+      '⚠ Flaky test: Checkout with a saved card\nStep: Click the "Pay now" button'
+    )
+    expect(stderr).not.toContain('Failed test')
+    const triggers = server.requestsTo('/external/actions/trigger')
+    expect(triggers).toHaveLength(2)
+    expect(JSON.parse(triggers[1].body)).toMatchObject({
+      test_ids: ['suite-1:checkout']
+    })
+  })
+
+  it('Times out when the stream stalls', async () => {
+    await startServer('stall')
+
+    expect(await runCli('--timeout', '1')).toBe(EXIT_CODES.timeout)
+
+    expect(stderr).toContain(
+      'Timed out after 1s waiting for test suite completion'
+    )
+  })
+
+  it('Resumes a dropped stream from the last event', async () => {
+    await startServer('drop')
+
+    expect(await runCli()).toBe(0)
+
+    expect(stderr).toContain('SSE stream interrupted')
+    const streams = server.requestsTo('/external/actions/run/run-1/events')
+    expect(streams).toHaveLength(2)
+    expect(streams[0].headers['last-event-id']).toBeUndefined()
+    expect(streams[1].headers['last-event-id']).toBe('2')
+    expect(stdout).toContain('✅ Run run-1 passed: 2 passed, 0 failed')
+  })
+
+  it('Retries a burst of 503 responses', async () => {
+    await startServer('unavailable', { unavailableCount: 2 })
+
+    expect(await runCli('--max-retries', '3')).toBe(0)
+
+    expect(server.requestsTo('/version')).toHaveLength(3)
+    expect(server.requestsTo('/external/actions/trigger')).toHaveLength(3)
+    expect(stdout).toContain('✅ Run run-1 passed')
+  })
+
+  it('Fails when a 503 burst outlasts the retries', async () => {
+    await startServer('unavailable', { unavailableCount: 5 })
+
+    expect(await runCli('--max-retries', '1')).toBe(EXIT_CODES.error)
+
+    expect(server.requestsTo('/external/actions/trigger')).toHaveLength(2)
+    expect(stderr).toContain('Failed to trigger action: 503')
+  })
+
+  it('Polls the status endpoint', async () => {
+    await startServer('fail', { eventDelayMs: 0 })
+
+    expect(await runCli('--transport', 'poll', '--poll-interval', '1')).toBe(
+      EXIT_CODES.failed
+    )
+
+    expect(
+      server.requestsTo('/external/actions/run/run-1/status').length
+    ).toBeGreaterThan(0)
+    expect(server.requestsTo('/external/actions/run/run-1/events')).toEqual([])
+  })
+})
@@ -0,0 +1,155 @@
+/**
+ * Unit tests for src/junit.ts
+ */
+import { jest } from '@jest/globals'
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import * as core from '../__fixtures__/core.js'
+
+jest.unstable_mockModule('@actions/core', () => core)
+
+const { buildJUnitXml, writeJUnitReport } = await import('../src/junit.js')
+const { RunResults } = await import('../src/results.js')
+
+describe('junit.ts', () => {
+  function sampleResults(): InstanceType<typeof RunResults> {
+    const results = new RunResults('run-1', 'https://app.desplega.ai')
+
+    results.recordSuiteEvent({
+      status: 'failed',
+      elapsed: 9.5,
+      start_time: '2025-05-21T21:45:33.096100+00:00',
+      test_suite_id: 'suite-1',
+      test_ids: ['t1', 't2', 't3', 't4']
+    })
+    results.recordTestEvent({
+      test_id: 't1',
+      test_name: 'Login',
+      status: 'passed',
+      elapsed: 1.25
+    })
+    results.recordTestEvent({
+      test_id: 't2',
+      test_name: 'Checkout & "pay"',
+      status: 'failed',
+      elapsed: 4,
+      failed_step: 'Click <pay>',
+      error: 'Element not found'
+    })
+    results.recordTestEvent({
+      test_id: 't3',
+      test_name: 'Search',
+      status: 'flaky',
+      elapsed: 2,
+      error: 'Timed out once'
+    })
+
+    return results
+  }
+
+  it('Builds testsuites and testcases from the results', () => {
+    const xml = buildJUnitXml(sampleResults())
+
+    expect(xml).toBe(
+      [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<testsuites name="desplega.ai" tests="4" failures="1" errors="0" skipped="1" time="9.500">',
+        '  <testsuite name="suite-1" tests="4" failures="1" errors="0" skipped="1" time="7.250" timestamp="2025-05-21T21:45:33.096100+00:00">',
+        '    <properties>',
+        '      <property name="runId" value="run-1"/>',
+        '      <property name="status" value="failed"/>',
+        '      <property name="url" value="https://app.desplega.ai/runs/run-1"/>',
+        '    </properties>',
+        '    <testcase name="Login" classname="suite-1" time="1.250"/>',
+        '    <testcase name="Checkout &amp; &quot;pay&quot;" classname="suite-1" time="4.000">',
+        '      <failure message="Element not found" type="failed">Step: Click &lt;pay&gt;',
+        'Element not found</failure>',
+        '    </testcase>',
+        '    <testcase name="Search" classname="suite-1" time="2.000">',
+        '      <properties>',
+        '        <property name="flaky" value="true"/>',
+        '      </properties>',
+        '      <flakyFailure message="Timed out once" type="flaky">Timed out once</flakyFailure>',
+        '    </testcase>',
+        '    <testcase name="t4" classname="suite-1" time="0.000">',
+        '      <skipped message="Test did not complete (status: pending)"/>',
+        '    </testcase>',
+        '  </testsuite>',
+        '</testsuites>',
+        ''
+      ].join('\n')
+    )
+  })
+
+  it('Groups tests by suite', () => {
+    const results = new RunResults('run-2', undefined, ['a', 'b'])
+    results.recordTestEvent({
+      test_id: 't1',
+      test_suite_id: 'b',
+      status: 'error'
+    })
+    results.recordTestEvent({ test_id: 't2', status: 'skipped' })
+
+    const xml = buildJUnitXml(results)
+
+    expect(xml).toContain(
+      '<testsuite name="a" tests="0" failures="0" errors="0" skipped="0" time="0.000">'
+    )
+    expect(xml).toContain(
+      '<testsuite name="b" tests="1" failures="0" errors="1" skipped="0" time="0.000">'
+    )
+    expect(xml).toContain('<error message="Test error" type="error"></error>')
+    expect(xml).toContain(
+      '<testsuite name="desplega.ai run run-2" tests="1" failures="0" errors="0" skipped="1" time="0.000">'
+    )
+  })
+
+  it('Drops characters that are not allowed in XML', () => {
+    const results = new RunResults('run-3')
+    results.recordTestEvent({
+      test_id: 't1',
+      status: 'failed',
+      error: 'bad\u0000\u001b[31m output'
+    })
+
+    expect(buildJUnitXml(results)).toContain('message="bad[31m output"')
+  })
+
+  describe('writeJUnitReport', () => {
+    let dir: string
+
+    beforeEach(() => {
+      jest.resetAllMocks()
+      dir = mkdtempSync(path.join(tmpdir(), 'junit-'))
+    })
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('Writes the report and sets the output', async () => {
+      const reportPath = path.join(dir, 'reports', 'junit.xml')
+
+      await writeJUnitReport(sampleResults(), reportPath)
+
+      expect(readFileSync(reportPath, 'utf8')).toBe(
+        buildJUnitXml(sampleResults())
+      )
+      expect(core.setOutput).toHaveBeenCalledWith('junitPath', reportPath)
+    })
+
+    it('Warns instead of failing when the report cannot be written', async () => {
+      // A file cannot be used as a directory
+      const reportPath = path.join(dir, 'junit.xml')
+      await writeJUnitReport(sampleResults(), reportPath)
+
+      await writeJUnitReport(sampleResults(), path.join(reportPath, 'x.xml'))
+
+      expect(core.warning).toHaveBeenCalledWith(
+        expect.stringContaining('Failed to write JUnit report:')
+      )
+      expect(core.setFailed).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -6,7 +6,14 @@
  * so that the actual '@actions/core' module is not imported.
  */
 import { jest } from '@jest/globals'
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import * as checks from '../__fixtures__/checks.js'
+import * as comment from '../__fixtures__/comment.js'
 import * as core from '../__fixtures__/core.js'
+import * as junit from '../__fixtures__/junit.js'
+import * as summary from '../__fixtures__/summary.js'
 
 // Utility to create a minimal mock Response
 function createMockResponse(options: {
@@ -17,14 +24,15 @@ function createMockResponse(options: {
   text?: () => Promise<string>
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   body?: any
+  headers?: Record<string, string>
 }): Response {
-  const { ok, status = 200, json, text, body } = options
+  const { ok, status = 200, json, text, body, headers } = options
 
   return {
     ok,
     status,
     statusText: ok ? 'OK' : 'Error',
-    headers: new Headers(),
+    headers: new Headers(headers),
     body,
     bodyUsed: false,
     type: 'basic',
@@ -73,6 +81,10 @@ const mockBody = {
 
 // Mocks should be declared before the module being tested is imported.
 jest.unstable_mockModule('@actions/core', () => core)
+jest.unstable_mockModule('../src/summary.js', () => summary)
+jest.unstable_mockModule('../src/junit.js', () => junit)
+jest.unstable_mockModule('../src/comment.js', () => comment)
+jest.unstable_mockModule('../src/checks.js', () => checks)
 
 // The module being tested should be imported dynamically. This ensures that the
 // mocks are used in place of any actual dependencies.
@@ -83,6 +95,19 @@ describe('main.ts', () => {
   const mockOriginUrl = 'https://test-origin.com'
   const mockRunId = 'test-run-id'
 
+  // Trigger bodies must not depend on the workflow running the tests
+  const githubEnv = Object.fromEntries(
+    Object.entries(process.env).filter(([name]) => name.startsWith('GITHUB_'))
+  )
+
+  beforeAll(() => {
+    for (const name of Object.keys(githubEnv)) delete process.env[name]
+  })
+
+  afterAll(() => {
+    Object.assign(process.env, githubEnv)
+  })
+
   beforeEach(() => {
     // Reset all mocks
     jest.resetAllMocks()
@@ -94,7 +119,7 @@ describe('main.ts', () => {
       if (name === 'originUrl') return mockOriginUrl
       if (name === 'suiteIds') return 'suite1,suite2'
       if (name === 'failFast') return 'false'
-      if (name === 'block') return 'false'
+      if (name === 'block') return 'true'
       return ''
     })
 
@@ -142,7 +167,10 @@ describe('main.ts', () => {
   it('Should trigger a test run and process SSE events', async () => {
     await run()
 
-    expect(fetchMock).toHaveBeenCalledWith(`${mockOriginUrl}/version`)
+    expect(fetchMock).toHaveBeenCalledWith(
+      `${mockOriginUrl}/version`,
+      expect.anything()
+    )
     expect(core.setOutput).toHaveBeenCalledWith('version', '1337')
 
     // Verify API call to trigger endpoint
@@ -217,8 +245,8 @@ describe('main.ts', () => {
       .mockImplementationOnce(async () => {
         return createMockResponse({
           ok: false,
-          status: 500,
-          text: async () => 'Server error'
+          status: 403,
+          text: async () => 'Forbidden'
         })
       })
 
@@ -360,7 +388,25 @@ describe('main.ts', () => {
               {
                 done: false,
                 value: encoder.encode(
-                  `event: test_suite_run.event\ndata: {"text": "blu blu", "status": "${status}"}\n\n`
+                  `retry: 10\nevent: test_suite_run.event\ndata: {"text": "blu blu", "status": "${status}"}\n\n`
+                )
+              },
+              { done: true, value: new Uint8Array() }
+            ])
+
+            return createMockResponse({
+              ok: true,
+              body: mockBody
+            })
+          })
+          .mockImplementationOnce(async () => {
+            // The stream closed early, so the action reconnects
+            const encoder = new TextEncoder()
+            mockReader.setEvents([
+              {
+                done: false,
+                value: encoder.encode(
+                  'event: test_suite_run.event\ndata: {"text": "Done", "status": "passed"}\n\n'
                 )
               },
               { done: true, value: new Uint8Array() }
@@ -375,6 +421,7 @@ describe('main.ts', () => {
         await run()
 
         expect(core.setOutput).not.toHaveBeenCalledWith('status', status)
+        expect(core.setOutput).toHaveBeenCalledWith('status', 'passed')
         expect(core.setFailed).not.toHaveBeenCalled()
       }
     )
@@ -391,7 +438,7 @@ describe('main.ts', () => {
         if (name === 'originUrl') return mockOriginUrl
         if (name === 'suiteIds') return 'suite1,suite2'
         if (name === 'failFast') return 'false'
-        if (name === 'block') return 'false'
+        if (name === 'block') return 'true'
         if (name === 'maxRetries') return '2' // Enable retries
         return ''
       })
@@ -460,6 +507,171 @@ describe('main.ts', () => {
       expect(core.setOutput).toHaveBeenCalledWith('runId', mockRunId)
     })
 
+    /**
+     * Serve the version and a passing run, trigger calls are answered by
+     * `trigger`
+     */
+    function mockTrigger(trigger: () => Promise<Response>): void {
+      fetchMock.mockImplementation(async (url) => {
+        if (url === `${mockOriginUrl}/version`) {
+          return createMockResponse({
+            ok: true,
+            json: async () => ({ version: '1337' })
+          })
+        } else if (url === `${mockOriginUrl}/external/actions/trigger`) {
+          return trigger()
+        } else if (
+          url === `${mockOriginUrl}/external/actions/run/${mockRunId}/events`
+        ) {
+          mockReader.setEvents([
+            {
+              done: false,
+              value: new TextEncoder().encode(
+                'event: test_suite_run.event\ndata: {"status": "passed"}\n\n'
+              )
+            },
+            { done: true, value: new Uint8Array() }
+          ])
+          return createMockResponse({ ok: true, body: mockBody })
+        }
+
+        return createMockResponse({
+          ok: false,
+          status: 404,
+          text: async () => 'Not found'
+        })
+      })
+    }
+
+    it('Should send the same idempotency key on every attempt', async () => {
+      process.env.GITHUB_RUN_ID = '42'
+      let attemptCount = 0
+      mockTrigger(async () => {
+        attemptCount++
+        if (attemptCount === 1) throw new TypeError('fetch failed')
+        return createMockResponse({
+          ok: true,
+          json: async () => ({ run_id: mockRunId })
+        })
+      })
+
+      try {
+        await run()
+      } finally {
+        delete process.env.GITHUB_RUN_ID
+      }
+
+      const keys = fetchMock.mock.calls
+        .filter(([url]) => url === `${mockOriginUrl}/external/actions/trigger`)
+        .map(([, init]) => new Headers(init?.headers).get('Idempotency-Key'))
+
+      expect(keys).toHaveLength(2)
+      expect(keys[0]).toMatch(/^[0-9a-f]{64}$/)
+      expect(keys[1]).toBe(keys[0])
+      expect(core.setOutput).toHaveBeenCalledWith('runId', mockRunId)
+    })
+
+    it('Should attach to the run created by a lost attempt', async () => {
+      let attemptCount = 0
+      mockTrigger(async () => {
+        attemptCount++
+        // The run was created, but the response never arrived
+        if (attemptCount === 1) throw new TypeError('fetch failed')
+        return createMockResponse({
+          ok: false,
+          status: 409,
+          text: async () =>
+            JSON.stringify({ error: 'already exists', run_id: mockRunId })
+        })
+      })
+
+      await run()
+
+      expect(attemptCount).toBe(2)
+      expect(core.info).toHaveBeenCalledWith(
+        `A run already exists for this trigger, attaching to run ${mockRunId}`
+      )
+      expect(core.setOutput).toHaveBeenCalledWith('runId', mockRunId)
+      expect(core.setOutput).toHaveBeenCalledWith('status', 'passed')
+      expect(core.setFailed).not.toHaveBeenCalled()
+    })
+
+    it('Should wait for Retry-After when rate limited', async () => {
+      let attemptCount = 0
+      mockTrigger(async () => {
+        attemptCount++
+        if (attemptCount === 1) {
+          return createMockResponse({
+            ok: false,
+            status: 429,
+            headers: { 'Retry-After': '0' },
+            text: async () => 'Too Many Requests'
+          })
+        }
+        return createMockResponse({
+          ok: true,
+          json: async () => ({ run_id: mockRunId })
+        })
+      })
+
+      await run()
+
+      expect(attemptCount).toBe(2)
+      expect(core.info).toHaveBeenCalledWith(
+        'Attempt 1 failed, retrying in 0ms...'
+      )
+      expect(core.setOutput).toHaveBeenCalledWith('runId', mockRunId)
+      expect(core.setFailed).not.toHaveBeenCalled()
+    })
+
+    it('Should stop retrying when the total retry time is spent', async () => {
+      core.getInput.mockImplementation((name) => {
+        if (name === 'apiKey') return mockApiKey
+        if (name === 'originUrl') return mockOriginUrl
+        if (name === 'suiteIds') return 'suite1'
+        if (name === 'maxRetries') return '5'
+        if (name === 'retryMaxTime') return '1'
+        return ''
+      })
+      let attemptCount = 0
+      mockTrigger(async () => {
+        attemptCount++
+        return createMockResponse({
+          ok: false,
+          status: 503,
+          headers: { 'Retry-After': '2' },
+          text: async () => 'Service Unavailable'
+        })
+      })
+
+      await run()
+
+      expect(attemptCount).toBe(1)
+      expect(core.info).toHaveBeenCalledWith(
+        'Not retrying, the total retry time of 1000ms would be exceeded'
+      )
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'Failed to trigger action: 503 Service Unavailable'
+      )
+    })
+
+    it('Should fail on a conflict without a run ID', async () => {
+      mockTrigger(async () =>
+        createMockResponse({
+          ok: false,
+          status: 409,
+          text: async () => 'Conflict'
+        })
+      )
+
+      await run()
+
+      expect(fetchMock).toHaveBeenCalledTimes(2) // version + 1 trigger attempt
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'Failed to trigger action: 409 Conflict'
+      )
+    })
+
     it('Should not retry on 4xx client errors', async () => {
       fetchMock.mockImplementation(async (url) => {
         if (url === `${mockOriginUrl}/version`) {
@@ -538,7 +750,7 @@ describe('main.ts', () => {
         if (name === 'originUrl') return mockOriginUrl
         if (name === 'suiteIds') return 'suite1,suite2'
         if (name === 'failFast') return 'false'
-        if (name === 'block') return 'false'
+        if (name === 'block') return 'true'
         if (name === 'maxRetries') return '0' // Disable retries
         return ''
       })
@@ -589,7 +801,7 @@ describe('main.ts', () => {
         if (name === 'originUrl') return mockOriginUrl
         if (name === 'suiteIds') return 'suite1,suite2'
         if (name === 'failFast') return 'false'
-        if (name === 'block') return 'false'
+        if (name === 'block') return 'true'
         if (name === 'timeout') return '1'
         return ''
       })
@@ -673,7 +885,7 @@ describe('main.ts', () => {
         if (name === 'originUrl') return mockOriginUrl
         if (name === 'suiteIds') return 'suite1,suite2'
         if (name === 'failFast') return 'false'
-        if (name === 'block') return 'false'
+        if (name === 'block') return 'true'
         return ''
       })
 
@@ -727,4 +939,1726 @@ describe('main.ts', () => {
       expect(core.setFailed).not.toHaveBeenCalled()
     })
   })
+
+  describe('SSE reconnection', () => {
+    const sseUrl = `${mockOriginUrl}/external/actions/run/${mockRunId}/events`
+
+    let random: jest.SpiedFunction<typeof Math.random>
+
+    beforeEach(() => {
+      // Wait for the whole backoff instead of a random part of it
+      random = jest.spyOn(Math, 'random').mockReturnValue(1)
+    })
+
+    afterEach(() => {
+      random.mockRestore()
+    })
+
+    // Serves version and trigger, and hands SSE requests to the given handler
+    function mockEndpoints(
+      onEvents: (init: RequestInit | undefined) => Promise<Response>
+    ): void {
+      fetchMock.mockImplementation(async (url, init) => {
+        if (url === `${mockOriginUrl}/version`) {
+          return createMockResponse({
+            ok: true,
+            json: async () => ({ version: '1337' })
+          })
+        } else if (url === `${mockOriginUrl}/external/actions/trigger`) {
+          return createMockResponse({
+            ok: true,
+            json: async () => ({ run_id: mockRunId })
+          })
+        } else if (url === sseUrl) {
+          return onEvents(init)
+        }
+
+        return createMockResponse({
+          ok: false,
+          status: 404,
+          text: async () => 'Not found'
+        })
+      })
+    }
+
+    function streamOf(...chunks: string[]): Response {
+      const encoder = new TextEncoder()
+      const reader = new MockReadableStreamDefaultReader()
+      reader.setEvents([
+        ...chunks.map((chunk) => ({
+          done: false,
+          value: encoder.encode(chunk)
+        })),
+        { done: true, value: new Uint8Array() }
+      ])
+
+      return createMockResponse({
+        ok: true,
+        body: { getReader: () => reader }
+      })
+    }
+
+    it('Should resume with Last-Event-ID after the stream drops', async () => {
+      const requests: Array<RequestInit | undefined> = []
+
+      mockEndpoints(async (init) => {
+        requests.push(init)
+
+        if (requests.length === 1) {
+          return streamOf(
+            'retry: 5\nid: evt-1\nevent: test_suite_run.event\ndata: {"status": "running"}\n\n'
+          )
+        }
+
+        return streamOf(
+          'id: evt-2\nevent: test_suite_run.event\ndata: {"status": "passed"}\n\n'
+        )
+      })
+
+      await run()
+
+      expect(requests).toHaveLength(2)
+      expect(requests[0]?.headers).not.toHaveProperty('Last-Event-ID')
+      expect(requests[1]?.headers).toEqual(
+        expect.objectContaining({
+          'X-Api-Key': mockApiKey,
+          'Last-Event-ID': 'evt-1'
+        })
+      )
+      expect(core.info).toHaveBeenCalledWith(
+        'Reconnecting to SSE endpoint in 10ms (attempt 1/5)...'
+      )
+      expect(core.setOutput).toHaveBeenCalledWith('status', 'passed')
+      expect(core.setFailed).not.toHaveBeenCalled()
+    })
+
+    it('Should never reconnect sooner than the server retry delay', async () => {
+      // No jitter at all, only the server's delay is left
+      random.mockReturnValue(0)
+      const connectedAt: number[] = []
+
+      mockEndpoints(async () => {
+        connectedAt.push(Date.now())
+
+        return streamOf(
+          connectedAt.length === 1
+            ? 'retry: 50\nid: evt-1\nevent: test_suite_run.event\ndata: {"status": "running"}\n\n'
+            : 'event: test_suite_run.event\ndata: {"status": "passed"}\n\n'
+        )
+      })
+
+      await run()
+
+      expect(connectedAt).toHaveLength(2)
+      expect(connectedAt[1] - connectedAt[0]).toBeGreaterThanOrEqual(50)
+      expect(core.info).toHaveBeenCalledWith(
+        'Reconnecting to SSE endpoint in 50ms (attempt 1/5)...'
+      )
+    })
+
+    it('Should reconnect when the stream errors mid-read', async () => {
+      let connections = 0
+
+      mockEndpoints(async () => {
+        connections++
+
+        if (connections === 1) {
+          const brokenReader = {
+            read: async () => {
+              throw new TypeError('terminated')
+            },
+            releaseLock: () => {}
+          }
+
+          return createMockResponse({
+            ok: true,
+            body: { getReader: () => brokenReader }
+          })
+        }
+
+        return streamOf(
+          'retry: 5\nevent: test_suite_run.event\ndata: {"status": "failed"}\n\n'
+        )
+      })
+
+      await run()
+
+      expect(connections).toBe(2)
+      expect(core.warning).toHaveBeenCalledWith(
+        'SSE stream interrupted: terminated'
+      )
+      expect(core.setOutput).toHaveBeenCalledWith('status', 'failed')
+    })
+
+    it('Should retry 5xx responses from the SSE endpoint', async () => {
+      let connections = 0
+
+      mockEndpoints(async () => {
+        connections++
+
+        if (connections === 1) {
+          return createMockResponse({
+            ok: false,
+            status: 503,
+            text: async () => 'Service Unavailable'
+          })
+        }
+
+        return streamOf(
+          'event: test_suite_run.event\ndata: {"status": "passed"}\n\n'
+        )
+      })
+
+      await run()
+
+      expect(connections).toBe(2)
+      expect(core.warning).toHaveBeenCalledWith('SSE endpoint returned 503')
+      expect(core.setOutput).toHaveBeenCalledWith('status', 'passed')
+      expect(core.setFailed).not.toHaveBeenCalled()
+    })
+
+    it('Should give up after the maximum reconnection attempts', async () => {
+      jest.useFakeTimers()
+
+      mockEndpoints(async () => {
+        throw new TypeError('fetch failed')
+      })
+
+      const runPromise = run()
+      await jest.advanceTimersByTimeAsync(60_000)
+      await runPromise
+
+      // Trigger, version, 1 initial attempt + 5 reconnections, cancel
+      expect(fetchMock).toHaveBeenCalledTimes(9)
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'SSE connection error: Gave up after 5 reconnection attempts'
+      )
+
+      jest.useRealTimers()
+    })
+
+    it('Should count reconnection delays against the timeout', async () => {
+      jest.useFakeTimers()
+
+      core.getInput.mockImplementation((name) => {
+        if (name === 'apiKey') return mockApiKey
+        if (name === 'originUrl') return mockOriginUrl
+        if (name === 'timeout') return '2'
+        return ''
+      })
+
+      mockEndpoints(async () =>
+        streamOf('event: test_suite_run.event\ndata: {"status": "running"}\n\n')
+      )
+
+      const runPromise = run()
+      await jest.advanceTimersByTimeAsync(2500)
+      await runPromise
+
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'Timed out after 2s waiting for test suite completion'
+      )
+
+      jest.useRealTimers()
+    })
+  })
+
+  describe('Transport', () => {
+    const sseUrl = `${mockOriginUrl}/external/actions/run/${mockRunId}/events`
+    const statusUrl = `${mockOriginUrl}/external/actions/run/${mockRunId}/status`
+
+    function mockInputs(inputs: Record<string, string>): void {
+      core.getInput.mockImplementation((name) => {
+        if (name === 'apiKey') return mockApiKey
+        if (name === 'originUrl') return mockOriginUrl
+        return inputs[name] ?? ''
+      })
+    }
+
+    function mockEndpoints(
+      onEvents: (init: RequestInit | undefined) => Promise<Response>
+    ): void {
+      fetchMock.mockImplementation(async (url, init) => {
+        if (url === `${mockOriginUrl}/version`) {
+          return createMockResponse({
+            ok: true,
+            json: async () => ({ version: '1337' })
+          })
+        } else if (url === `${mockOriginUrl}/external/actions/trigger`) {
+          return createMockResponse({
+            ok: true,
+            json: async () => ({ run_id: mockRunId })
+          })
+        } else if (url === sseUrl) {
+          return onEvents(init)
+        } else if (url === statusUrl) {
+          return createMockResponse({
+            ok: true,
+            json: async () => ({ status: 'passed', elapsed: 3.2 })
+          })
+        }
+
+        return createMockResponse({
+          ok: false,
+          status: 404,
+          text: async () => 'Not found'
+        })
+      })
+    }
+
+    it('Should only poll the status endpoint in poll mode', async () => {
+      mockInputs({ transport: 'poll' })
+      mockEndpoints(async () => {
+        throw new Error('SSE should not be used')
+      })
+
+      await run()
+
+      expect(fetchMock).not.toHaveBeenCalledWith(sseUrl, expect.anything())
+      expect(fetchMock).toHaveBeenCalledWith(
+        statusUrl,
+        expect.objectContaining({
+          headers: expect.objectContaining({ 'X-Api-Key': mockApiKey })
+        })
+      )
+      expect(core.info).toHaveBeenCalledWith('Run status: passed (3.2 seconds)')
+      expect(core.setOutput).toHaveBeenCalledWith('status', 'passed')
+      expect(core.setFailed).not.toHaveBeenCalled()
+    })
+
+    it('Should fall back to polling when the stream cannot be set up', async () => {
+      mockInputs({ transport: 'auto' })
+      mockEndpoints(async () =>
+        createMockResponse({
+          ok: false,
+          status: 404,
+          text: async () => 'Not found'
+        })
+      )
+
+      await run()
+
+      expect(core.warning).toHaveBeenCalledWith(
+        'SSE unavailable (404 Not found), falling back to polling'
+      )
+      expect(fetchMock).toHaveBeenCalledWith(statusUrl, expect.anything())
+      expect(core.setOutput).toHaveBeenCalledWith('status', 'passed')
+      expect(core.setFailed).not.toHaveBeenCalled()
+    })
+
+    it('Should fall back to polling when the stream goes quiet', async () => {
+      jest.useFakeTimers()
+      mockInputs({ transport: 'auto' })
+
+      let capturedSignal: AbortSignal | undefined
+      mockEndpoints(async (init) => {
+        capturedSignal = init?.signal ?? undefined
+
+        const silentReader = {
+          read: () =>
+            new Promise<{ done: boolean; value: Uint8Array }>(() => {}),
+          releaseLock: () => {}
+        }
+
+        return createMockResponse({
+          ok: true,
+          body: { getReader: () => silentReader }
+        })
+      })
+
+      const runPromise = run()
+      await jest.advanceTimersByTimeAsync(61_000)
+      await runPromise
+
+      expect(capturedSignal?.aborted).toBe(true)
+      expect(core.warning).toHaveBeenCalledWith(
+        'SSE unavailable (SSE stream went quiet for 60s), falling back to polling'
+      )
+      expect(core.setOutput).toHaveBeenCalledWith('status', 'passed')
+      expect(core.setFailed).not.toHaveBeenCalled()
+
+      jest.useRealTimers()
+    })
+
+    it('Should not fall back to polling in sse mode', async () => {
+      mockInputs({ transport: 'sse' })
+      mockEndpoints(async () =>
+        createMockResponse({
+          ok: false,
+          status: 404,
+          text: async () => 'Not found'
+        })
+      )
+
+      await run()
+
+      expect(fetchMock).not.toHaveBeenCalledWith(statusUrl, expect.anything())
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'SSE connection error: Failed to connect to SSE endpoint: 404 Not found'
+      )
+    })
+
+    it('Should report status polling errors', async () => {
+      mockInputs({ transport: 'poll' })
+      fetchMock.mockImplementation(async (url) => {
+        if (url === `${mockOriginUrl}/version`) {
+          return createMockResponse({
+            ok: true,
+            json: async () => ({ version: '1337' })
+          })
+        } else if (url === `${mockOriginUrl}/external/actions/trigger`) {
+          return createMockResponse({
+            ok: true,
+            json: async () => ({ run_id: mockRunId })
+          })
+        }
+
+        return createMockResponse({
+          ok: false,
+          status: 403,
+          text: async () => 'Forbidden'
+        })
+      })
+
+      await run()
+
+      expect(core.setFailed).toHaveBeenCalledWith(
+        `Status polling error: Failed to fetch the status of run ${mockRunId}: 403 Forbidden`
+      )
+    })
+
+    it('Should reject an unknown transport', async () => {
+      mockInputs({ transport: 'carrier-pigeon' })
+
+      await run()
+
+      expect(fetchMock).not.toHaveBeenCalled()
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'Invalid transport "carrier-pigeon", expected one of: sse, poll, auto'
+      )
+    })
+  })
+
+  describe('Non-blocking runs', () => {
+    const sseUrl = `${mockOriginUrl}/external/actions/run/${mockRunId}/events`
+
+    function mockInputs(inputs: Record<string, string>): void {
+      core.getInput.mockImplementation((name) => {
+        if (name === 'apiKey') return mockApiKey
+        if (name === 'originUrl') return mockOriginUrl
+        return inputs[name] ?? ''
+      })
+    }
+
+    it('Should block by default', async () => {
+      mockInputs({ suiteIds: 'suite1' })
+
+      await run()
+
+      expect(fetchMock).toHaveBeenCalledWith(sseUrl, expect.anything())
+      expect(core.setOutput).toHaveBeenCalledWith('status', 'passed')
+    })
+
+    it('Should trigger the run and exit when block is false', async () => {
+      mockInputs({ suiteIds: 'suite1', block: 'false' })
+
+      await run()
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        `${mockOriginUrl}/external/actions/trigger`,
+        expect.anything()
+      )
+      expect(fetchMock).not.toHaveBeenCalledWith(sseUrl, expect.anything())
+      expect(core.setOutput).toHaveBeenCalledWith('runId', mockRunId)
+      expect(core.setOutput).toHaveBeenCalledWith('status', 'running')
+      // The post step must not cancel runs that are left running on purpose
+      expect(core.saveState).toHaveBeenCalledWith('finished', 'true')
+      expect(core.setFailed).not.toHaveBeenCalled()
+    })
+
+    it('Should wait for an existing run in wait mode', async () => {
+      mockInputs({ mode: 'wait', runId: mockRunId, block: 'false' })
+
+      await run()
+
+      expect(fetchMock).not.toHaveBeenCalledWith(
+        `${mockOriginUrl}/external/actions/trigger`,
+        expect.anything()
+      )
+      expect(fetchMock).toHaveBeenCalledWith(
+        sseUrl,
+        expect.objectContaining({
+          headers: expect.objectContaining({ 'X-Api-Key': mockApiKey })
+        })
+      )
+      expect(core.info).toHaveBeenCalledWith(
+        `Attaching to existing run ${mockRunId}`
+      )
+      expect(core.setOutput).toHaveBeenCalledWith('runId', mockRunId)
+      expect(core.setOutput).toHaveBeenCalledWith('status', 'passed')
+      expect(core.setFailed).not.toHaveBeenCalled()
+    })
+
+    it('Should apply the pass/fail logic in wait mode', async () => {
+      mockInputs({ mode: 'wait', runId: mockRunId })
+      fetchMock.mockImplementation(async () => {
+        const encoder = new TextEncoder()
+        mockReader.setEvents([
+          {
+            done: false,
+            value: encoder.encode(
+              'event: test_suite_run.event\ndata: {"status": "failed"}\n\n'
+            )
+          }
+        ])
+
+        return createMockResponse({ ok: true, body: mockBody })
+      })
+
+      await run()
+
+      expect(core.setOutput).toHaveBeenCalledWith('status', 'failed')
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'Test suite execution failed with status: failed'
+      )
+    })
+
+    it('Should require a run ID in wait mode', async () => {
+      mockInputs({ mode: 'wait' })
+
+      await run()
+
+      expect(fetchMock).not.toHaveBeenCalled()
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'The runId input is required when mode is "wait"'
+      )
+    })
+
+    it('Should reject an unknown mode', async () => {
+      mockInputs({ mode: 'later' })
+
+      await run()
+
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'Invalid mode "later", expected one of: run, wait'
+      )
+    })
+  })
+
+  describe('Attaching to an existing run', () => {
+    const sseUrl = `${mockOriginUrl}/external/actions/run/${mockRunId}/events`
+
+    function mockInputs(inputs: Record<string, string>): void {
+      core.getInput.mockImplementation((name) => {
+        if (name === 'apiKey') return mockApiKey
+        if (name === 'originUrl') return mockOriginUrl
+        return inputs[name] ?? ''
+      })
+    }
+
+    it('Should skip the trigger call when runId is set', async () => {
+      mockInputs({ runId: mockRunId })
+
+      await run()
+
+      expect(fetchMock).not.toHaveBeenCalledWith(
+        `${mockOriginUrl}/external/actions/trigger`,
+        expect.anything()
+      )
+      expect(fetchMock).toHaveBeenCalledWith(sseUrl, expect.anything())
+      expect(core.info).toHaveBeenCalledWith(
+        `Attaching to existing run ${mockRunId}`
+      )
+      expect(core.setOutput).toHaveBeenCalledWith('runId', mockRunId)
+      expect(core.setOutput).toHaveBeenCalledWith('status', 'passed')
+    })
+
+    it('Should wait for the run even when block is false', async () => {
+      mockInputs({ runId: mockRunId, block: 'false' })
+
+      await run()
+
+      expect(fetchMock).toHaveBeenCalledWith(sseUrl, expect.anything())
+      expect(core.setOutput).not.toHaveBeenCalledWith('status', 'running')
+      expect(core.setOutput).toHaveBeenCalledWith('status', 'passed')
+    })
+
+    it('Should warn that suiteIds are ignored', async () => {
+      mockInputs({ runId: mockRunId, suiteIds: 'suite1' })
+
+      await run()
+
+      expect(core.warning).toHaveBeenCalledWith(
+        'suiteIds is ignored when attaching to an existing run'
+      )
+    })
+
+    it('Should warn that suite names and tags are ignored', async () => {
+      mockInputs({ runId: mockRunId, suiteNames: 'Login', suiteTags: 'smoke' })
+
+      await run()
+
+      expect(core.warning).toHaveBeenCalledWith(
+        'suiteNames, suiteTags are ignored when attaching to an existing run'
+      )
+      expect(fetchMock).not.toHaveBeenCalledWith(
+        `${mockOriginUrl}/external/actions/suites`,
+        expect.anything()
+      )
+    })
+
+    it('Should apply the timeout to attached runs', async () => {
+      jest.useFakeTimers()
+      mockInputs({ runId: mockRunId, timeout: '1' })
+
+      fetchMock.mockImplementation(async (url, init) => {
+        if (url !== sseUrl) {
+          return createMockResponse({ ok: true, json: async () => ({}) })
+        }
+
+        const signal = init?.signal ?? undefined
+        const hangingReader = {
+          read: () =>
+            new Promise<{ done: boolean; value: Uint8Array }>((_, reject) => {
+              signal?.addEventListener('abort', () => reject(signal.reason))
+            }),
+          releaseLock: () => {}
+        }
+
+        return createMockResponse({
+          ok: true,
+          body: { getReader: () => hangingReader }
+        })
+      })
+
+      const runPromise = run()
+      await jest.advanceTimersByTimeAsync(1500)
+      await runPromise
+
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'Timed out after 1s waiting for test suite completion'
+      )
+
+      jest.useRealTimers()
+    })
+  })
+
+  describe('Job summary', () => {
+    function mockInputs(inputs: Record<string, string>): void {
+      core.getInput.mockImplementation((name) => {
+        if (name === 'apiKey') return mockApiKey
+        if (name === 'originUrl') return mockOriginUrl
+        return inputs[name] ?? ''
+      })
+    }
+
+    it('Should write a summary with the collected results', async () => {
+      mockInputs({
+        suiteIds: 'suite1,suite2',
+        dashboardUrl: 'https://app.desplega.ai'
+      })
+
+      await run()
+
+      expect(summary.writeJobSummary).toHaveBeenCalledTimes(1)
+
+      const [results] = summary.writeJobSummary.mock.calls[0]
+      expect(results.runId).toBe(mockRunId)
+      expect(results.status).toBe('passed')
+      expect(Array.from(results.suiteIds)).toEqual(['suite1', 'suite2'])
+      expect(results.runUrl).toBe(`https://app.desplega.ai/runs/${mockRunId}`)
+    })
+
+    it('Should write a summary when the run fails', async () => {
+      mockInputs({ runId: mockRunId })
+      fetchMock.mockImplementation(async (url) =>
+        url === `${mockOriginUrl}/version`
+          ? createMockResponse({ ok: true, json: async () => ({}) })
+          : createMockResponse({
+              ok: false,
+              status: 403,
+              text: async () => 'Forbidden'
+            })
+      )
+
+      await run()
+
+      expect(core.setFailed).toHaveBeenCalled()
+      expect(summary.writeJobSummary).toHaveBeenCalledTimes(1)
+    })
+
+    it('Should not write a summary when disabled', async () => {
+      mockInputs({ jobSummary: 'false' })
+
+      await run()
+
+      expect(summary.writeJobSummary).not.toHaveBeenCalled()
+    })
+
+    it('Should not write a summary for non-blocking runs', async () => {
+      mockInputs({ block: 'false' })
+
+      await run()
+
+      expect(summary.writeJobSummary).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('JUnit report', () => {
+    function mockInputs(inputs: Record<string, string>): void {
+      core.getInput.mockImplementation((name) => {
+        if (name === 'apiKey') return mockApiKey
+        if (name === 'originUrl') return mockOriginUrl
+        return inputs[name] ?? ''
+      })
+    }
+
+    it('Should write the report when junitPath is set', async () => {
+      mockInputs({ junitPath: 'reports/junit.xml' })
+
+      await run()
+
+      expect(junit.writeJUnitReport).toHaveBeenCalledWith(
+        expect.objectContaining({ runId: mockRunId, status: 'passed' }),
+        'reports/junit.xml'
+      )
+    })
+
+    it('Should not write the report by default', async () => {
+      mockInputs({})
+
+      await run()
+
+      expect(junit.writeJUnitReport).not.toHaveBeenCalled()
+    })
+
+    it('Should write partial results when the run times out', async () => {
+      jest.useFakeTimers()
+      mockInputs({ junitPath: 'junit.xml', timeout: '1', transport: 'poll' })
+
+      fetchMock.mockImplementation(async (url) => {
+        if (url === `${mockOriginUrl}/external/actions/trigger`) {
+          return createMockResponse({
+            ok: true,
+            json: async () => ({ run_id: mockRunId })
+          })
+        }
+
+        return createMockResponse({
+          ok: true,
+          json: async () => ({ status: 'running', test_ids: ['t1'] })
+        })
+      })
+
+      const runPromise = run()
+      await jest.advanceTimersByTimeAsync(1500)
+      await runPromise
+
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'Timed out after 1s waiting for test suite completion'
+      )
+      expect(junit.writeJUnitReport).toHaveBeenCalledTimes(1)
+
+      // The run is cancelled once waiting for it timed out
+      const [results] = junit.writeJUnitReport.mock.calls[0]
+      expect(results.status).toBe('cancelled')
+      expect(results.testResults).toEqual([{ id: 't1', status: 'pending' }])
+
+      jest.useRealTimers()
+    })
+  })
+
+  describe('Results', () => {
+    let tempDir: string
+
+    beforeAll(() => {
+      tempDir = mkdtempSync(path.join(tmpdir(), 'results-'))
+    })
+
+    afterAll(() => {
+      rmSync(tempDir, { recursive: true, force: true })
+    })
+
+    it('Should set the result outputs and write the results file', async () => {
+      const resultsPath = path.join(tempDir, 'results.json')
+      core.getInput.mockImplementation((name) => {
+        if (name === 'apiKey') return mockApiKey
+        if (name === 'originUrl') return mockOriginUrl
+        if (name === 'resultsPath') return resultsPath
+        return ''
+      })
+
+      await run()
+
+      expect(core.setOutput).toHaveBeenCalledWith('passedCount', 0)
+      expect(core.setOutput).toHaveBeenCalledWith('failedTests', '[]')
+      expect(core.setOutput).toHaveBeenCalledWith('resultsPath', resultsPath)
+      expect(JSON.parse(readFileSync(resultsPath, 'utf8'))).toMatchObject({
+        runId: mockRunId,
+        status: 'passed'
+      })
+    })
+
+    it('Should write an artifacts manifest when artifactsDir is set', async () => {
+      const artifactsDir = path.join(tempDir, 'artifacts')
+      core.getInput.mockImplementation((name) => {
+        if (name === 'apiKey') return mockApiKey
+        if (name === 'originUrl') return mockOriginUrl
+        if (name === 'artifactsDir') return artifactsDir
+        return ''
+      })
+
+      await run()
+
+      expect(core.setOutput).toHaveBeenCalledWith(
+        'artifactsManifest',
+        path.join(artifactsDir, 'manifest.json')
+      )
+    })
+  })
+
+  describe('Cancelling runs', () => {
+    const sseUrl = `${mockOriginUrl}/external/actions/run/${mockRunId}/events`
+    const cancelUrl = `${mockOriginUrl}/external/actions/run/${mockRunId}/cancel`
+
+    function mockEndpoints(
+      options: { cancelResponse?: Response; sseResponse?: Response } = {}
+    ): void {
+      core.getInput.mockImplementation((name) => {
+        if (name === 'apiKey') return mockApiKey
+        if (name === 'originUrl') return mockOriginUrl
+        if (name === 'timeout') return '1'
+        return ''
+      })
+
+      fetchMock.mockImplementation(async (url, init) => {
+        if (url === `${mockOriginUrl}/external/actions/trigger`) {
+          return createMockResponse({
+            ok: true,
+            json: async () => ({ run_id: mockRunId })
+          })
+        } else if (url === cancelUrl) {
+          return options.cancelResponse ?? createMockResponse({ ok: true })
+        } else if (url !== sseUrl) {
+          return createMockResponse({ ok: true, json: async () => ({}) })
+        } else if (options.sseResponse) {
+          return options.sseResponse
+        }
+
+        const signal = init?.signal ?? undefined
+        const hangingReader = {
+          read: () =>
+            new Promise<{ done: boolean; value: Uint8Array }>((_, reject) => {
+              signal?.addEventListener('abort', () => reject(signal.reason))
+            }),
+          releaseLock: () => {}
+        }
+
+        return createMockResponse({
+          ok: true,
+          body: { getReader: () => hangingReader }
+        })
+      })
+    }
+
+    function cancelCalls(): unknown[] {
+      return fetchMock.mock.calls.filter(([url]) => url === cancelUrl)
+    }
+
+    it('Should cancel the run when waiting times out', async () => {
+      jest.useFakeTimers()
+      mockEndpoints()
+
+      const runPromise = run()
+      await jest.advanceTimersByTimeAsync(1500)
+      await runPromise
+
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'Timed out after 1s waiting for test suite completion'
+      )
+      expect(fetchMock).toHaveBeenCalledWith(
+        cancelUrl,
+        expect.objectContaining({
+          method: 'POST',
+          headers: { 'X-Api-Key': mockApiKey }
+        })
+      )
+      expect(core.setOutput).toHaveBeenCalledWith('status', 'cancelled')
+      expect(core.info).toHaveBeenCalledWith(`Cancelled run ${mockRunId}`)
+
+      jest.useRealTimers()
+    })
+
+    it('Should cancel the run when the workflow is cancelled', async () => {
+      mockEndpoints()
+      const listeners = process.listenerCount('SIGTERM')
+
+      const runPromise = run()
+      await new Promise((resolve) => setTimeout(resolve, 50))
+      process.emit('SIGTERM', 'SIGTERM')
+      await runPromise
+
+      expect(core.warning).toHaveBeenCalledWith('Received SIGTERM, stopping')
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'The workflow run was cancelled'
+      )
+      expect(cancelCalls()).toHaveLength(1)
+      expect(core.setOutput).toHaveBeenCalledWith('status', 'cancelled')
+      expect(process.listenerCount('SIGTERM')).toBe(listeners)
+    })
+
+    it('Should only write the local reports once the workflow is cancelled', async () => {
+      const complete = jest.fn(async () => {})
+      checks.startCheckRuns.mockReturnValue({ complete } as never)
+      mockEndpoints()
+      const inputs: Record<string, string> = {
+        artifactsDir: path.join(tmpdir(), 'desplega-cancelled-artifacts'),
+        checkRuns: 'true',
+        githubToken: 'gh-token',
+        junitPath: 'junit.xml'
+      }
+      const getInput = core.getInput.getMockImplementation()!
+      core.getInput.mockImplementation(
+        (name, options) => inputs[name] ?? getInput(name, options)
+      )
+
+      const runPromise = run()
+      await new Promise((resolve) => setTimeout(resolve, 50))
+      process.emit('SIGTERM', 'SIGTERM')
+      await runPromise
+
+      expect(junit.writeJUnitReport).toHaveBeenCalled()
+      expect(core.setOutput).not.toHaveBeenCalledWith(
+        'artifactsManifest',
+        expect.anything()
+      )
+      expect(comment.postPullRequestComment).not.toHaveBeenCalled()
+      expect(complete).not.toHaveBeenCalled()
+      expect(core.saveState).toHaveBeenCalledWith('finished', 'true')
+    })
+
+    it('Should cancel the run when waiting fails', async () => {
+      mockEndpoints({
+        sseResponse: createMockResponse({ ok: false, status: 403 })
+      })
+
+      await run()
+
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'SSE connection error: Failed to connect to SSE endpoint: 403'
+      )
+      expect(cancelCalls()).toHaveLength(1)
+    })
+
+    it('Should warn when the run cannot be cancelled', async () => {
+      mockEndpoints({
+        sseResponse: createMockResponse({ ok: false, status: 403 }),
+        cancelResponse: createMockResponse({
+          ok: false,
+          status: 409,
+          text: async () => 'Run already finished'
+        })
+      })
+
+      await run()
+
+      expect(core.warning).toHaveBeenCalledWith(
+        `Failed to cancel run ${mockRunId}: 409 Run already finished`
+      )
+      expect(core.setOutput).not.toHaveBeenCalledWith('status', 'cancelled')
+    })
+
+    it('Should not cancel runs that completed', async () => {
+      await run()
+
+      expect(cancelCalls()).toHaveLength(0)
+      expect(core.setOutput).toHaveBeenCalledWith('status', 'passed')
+    })
+
+    it('Should save the state the post step needs', async () => {
+      await run()
+
+      expect(core.saveState).toHaveBeenCalledWith('runId', mockRunId)
+      expect(core.saveState).toHaveBeenCalledWith('originUrl', mockOriginUrl)
+      expect(core.saveState).toHaveBeenCalledWith(
+        'startTime',
+        expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/)
+      )
+      expect(core.saveState).toHaveBeenLastCalledWith('finished', 'true')
+    })
+  })
+
+  describe('Selecting suites by name or tag', () => {
+    const suitesUrl = `${mockOriginUrl}/external/actions/suites`
+    const triggerUrl = `${mockOriginUrl}/external/actions/trigger`
+
+    function mockInputs(inputs: Record<string, string>): void {
+      core.getInput.mockImplementation((name) => {
+        if (name === 'apiKey') return mockApiKey
+        if (name === 'originUrl') return mockOriginUrl
+        return inputs[name] ?? ''
+      })
+
+      const events = fetchMock.getMockImplementation()
+      fetchMock.mockImplementation(async (url, init) => {
+        if (url === suitesUrl) {
+          return createMockResponse({
+            ok: true,
+            json: async () => ({
+              suites: [
+                { id: 'id-checkout', name: 'Checkout', tags: ['smoke'] },
+                { id: 'id-login', name: 'Login', tags: ['smoke'] },
+                { id: 'id-search', name: 'Search', tags: ['nightly'] }
+              ]
+            })
+          })
+        }
+        return events!(url, init)
+      })
+    }
+
+    function triggerBody(): unknown {
+      const call = fetchMock.mock.calls.find(([url]) => url === triggerUrl)
+      return call && JSON.parse(String(call[1]?.body))
+    }
+
+    it('Should trigger the suites resolved from names and tags', async () => {
+      mockInputs({
+        suiteIds: 'id-other',
+        suiteNames: 'Log*',
+        suiteTags: 'nightly'
+      })
+
+      await run()
+
+      expect(triggerBody()).toEqual({
+        suite_ids: ['id-other', 'id-login', 'id-search'],
+        fail_fast: false
+      })
+      expect(core.info).toHaveBeenCalledWith('- Login [smoke] -> id-login')
+      expect(core.setFailed).not.toHaveBeenCalled()
+    })
+
+    it('Should fail without triggering when a name does not match', async () => {
+      mockInputs({ suiteNames: 'Logout' })
+
+      await run()
+
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'No suite matches the name "Logout"'
+      )
+      expect(triggerBody()).toBeUndefined()
+    })
+  })
+
+  describe('Target URL and environment', () => {
+    const triggerUrl = `${mockOriginUrl}/external/actions/trigger`
+
+    function mockInputs(inputs: Record<string, string>): void {
+      core.getInput.mockImplementation((name) => {
+        if (name === 'apiKey') return mockApiKey
+        if (name === 'originUrl') return mockOriginUrl
+        return inputs[name] ?? ''
+      })
+    }
+
+    function triggerBody(): unknown {
+      const call = fetchMock.mock.calls.find(([url]) => url === triggerUrl)
+      return call && JSON.parse(String(call[1]?.body))
+    }
+
+    it('Should forward the target and mask the environment', async () => {
+      mockInputs({
+        suiteIds: 'suite1',
+        targetUrl: 'https://pr-42.preview.example.com',
+        env: 'API_TOKEN=s3cr3t\n# comment\n\nFEATURE_FLAGS=a=1,b=2'
+      })
+
+      await run()
+
+      expect(triggerBody()).toEqual({
+        suite_ids: ['suite1'],
+        fail_fast: false,
+        target_url: 'https://pr-42.preview.example.com',
+        env: { API_TOKEN: 's3cr3t', FEATURE_FLAGS: 'a=1,b=2' }
+      })
+      expect(core.setSecret).toHaveBeenCalledWith('s3cr3t')
+      expect(core.setSecret).toHaveBeenCalledWith('a=1,b=2')
+      expect(core.info).toHaveBeenCalledWith(
+        'Target URL: https://pr-42.preview.example.com'
+      )
+      expect(core.info).toHaveBeenCalledWith(
+        'Environment: API_TOKEN=***, FEATURE_FLAGS=***'
+      )
+
+      const logged = [...core.debug.mock.calls, ...core.info.mock.calls]
+        .map(([message]) => message)
+        .join('\n')
+      expect(logged).not.toContain('s3cr3t')
+
+      expect(summary.writeJobSummary).toHaveBeenCalledWith(expect.anything(), {
+        url: 'https://pr-42.preview.example.com',
+        env: { API_TOKEN: 's3cr3t', FEATURE_FLAGS: 'a=1,b=2' }
+      })
+    })
+
+    it('Should fail on an invalid env entry without logging it', async () => {
+      mockInputs({ env: 'API_TOKEN=s3cr3t\nnot-a-secret' })
+
+      await run()
+
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'Invalid env entry on line 2, expected KEY=VALUE'
+      )
+      expect(triggerBody()).toBeUndefined()
+    })
+
+    describe('Deployment status events', () => {
+      let tempDir: string
+
+      beforeAll(() => {
+        tempDir = mkdtempSync(path.join(tmpdir(), 'deployment-'))
+      })
+
+      afterAll(() => {
+        rmSync(tempDir, { recursive: true, force: true })
+      })
+
+      afterEach(() => {
+        delete process.env.GITHUB_EVENT_NAME
+        delete process.env.GITHUB_EVENT_PATH
+      })
+
+      function mockDeploymentStatus(state: string): void {
+        const eventPath = path.join(tempDir, 'event.json')
+        writeFileSync(
+          eventPath,
+          JSON.stringify({
+            deployment_status: {
+              state,
+              environment_url: 'https://app-git-feature.vercel.app'
+            }
+          })
+        )
+        process.env.GITHUB_EVENT_NAME = 'deployment_status'
+        process.env.GITHUB_EVENT_PATH = eventPath
+      }
+
+      it('Should run against the deployment URL', async () => {
+        mockInputs({ suiteIds: 'suite1' })
+        mockDeploymentStatus('success')
+
+        await run()
+
+        expect(triggerBody()).toEqual({
+          suite_ids: ['suite1'],
+          fail_fast: false,
+          target_url: 'https://app-git-feature.vercel.app'
+        })
+        expect(core.setOutput).toHaveBeenCalledWith('status', 'passed')
+      })
+
+      it('Should skip when the deployment did not succeed', async () => {
+        mockInputs({ suiteIds: 'suite1' })
+        mockDeploymentStatus('failure')
+
+        await run()
+
+        expect(triggerBody()).toBeUndefined()
+        expect(core.setOutput).toHaveBeenCalledWith('status', 'skipped')
+        expect(core.setFailed).not.toHaveBeenCalled()
+      })
+    })
+
+    it('Should warn that the target is ignored when attaching', async () => {
+      mockInputs({
+        runId: mockRunId,
+        targetUrl: 'https://pr-42.preview.example.com'
+      })
+
+      await run()
+
+      expect(core.warning).toHaveBeenCalledWith(
+        'targetUrl is ignored when attaching to an existing run'
+      )
+      expect(triggerBody()).toBeUndefined()
+    })
+  })
+
+  describe('Run metadata', () => {
+    const triggerUrl = `${mockOriginUrl}/external/actions/trigger`
+
+    function mockInputs(inputs: Record<string, string>): void {
+      core.getInput.mockImplementation((name) => {
+        if (name === 'apiKey') return mockApiKey
+        if (name === 'originUrl') return mockOriginUrl
+        return inputs[name] ?? ''
+      })
+    }
+
+    function triggerBody(): Record<string, unknown> | undefined {
+      const call = fetchMock.mock.calls.find(([url]) => url === triggerUrl)
+      return call && JSON.parse(String(call[1]?.body))
+    }
+
+    const workflowEnv = {
+      GITHUB_SHA: 'abc1234def',
+      GITHUB_REF: 'refs/heads/main',
+      GITHUB_REF_NAME: 'main',
+      GITHUB_REPOSITORY: 'acme/shop',
+      GITHUB_ACTOR: 'octocat',
+      GITHUB_WORKFLOW: 'E2E',
+      GITHUB_RUN_ID: '42',
+      GITHUB_RUN_ATTEMPT: '2',
+      GITHUB_SERVER_URL: 'https://github.com'
+    }
+
+    beforeEach(() => {
+      Object.assign(process.env, workflowEnv)
+    })
+
+    afterEach(() => {
+      for (const name of Object.keys(workflowEnv)) delete process.env[name]
+    })
+
+    it('Should send the Git and workflow metadata', async () => {
+      mockInputs({ suiteIds: 'suite1' })
+
+      await run()
+
+      expect(triggerBody()).toEqual({
+        suite_ids: ['suite1'],
+        fail_fast: false,
+        metadata: {
+          commit_sha: 'abc1234def',
+          ref: 'refs/heads/main',
+          branch: 'main',
+          repository: 'acme/shop',
+          actor: 'octocat',
+          workflow: 'E2E',
+          workflow_run_id: '42',
+          workflow_run_attempt: 2,
+          workflow_run_url: 'https://github.com/acme/shop/actions/runs/42'
+        }
+      })
+    })
+
+    it('Should not send metadata when opted out', async () => {
+      mockInputs({ suiteIds: 'suite1', sendMetadata: 'false' })
+
+      await run()
+
+      expect(triggerBody()).toEqual({
+        suite_ids: ['suite1'],
+        fail_fast: false
+      })
+    })
+  })
+
+  describe('Rerunning failed tests', () => {
+    const triggerUrl = `${mockOriginUrl}/external/actions/trigger`
+
+    /**
+     * Serve runs in poll mode, the nth trigger call starts `runs[n]`
+     */
+    function mockRuns(
+      inputs: Record<string, string>,
+      runs: Array<{ status: string; tests: Array<Record<string, string>> }>
+    ): void {
+      core.getInput.mockImplementation((name) => {
+        if (name === 'apiKey') return mockApiKey
+        if (name === 'originUrl') return mockOriginUrl
+        if (name === 'transport') return 'poll'
+        return inputs[name] ?? ''
+      })
+
+      let triggered = 0
+      fetchMock.mockImplementation(async (url) => {
+        if (url === triggerUrl) {
+          const runId = `run-${++triggered}`
+          return createMockResponse({
+            ok: true,
+            json: async () => ({ run_id: runId })
+          })
+        }
+
+        const match = String(url).match(/\/run\/run-(\d+)\/status$/)
+        if (match) {
+          const run = runs[Number(match[1]) - 1]
+          return createMockResponse({ ok: true, json: async () => run })
+        }
+
+        return createMockResponse({ ok: true, json: async () => ({}) })
+      })
+    }
+
+    function triggerBodies(): unknown[] {
+      return fetchMock.mock.calls
+        .filter(([url]) => url === triggerUrl)
+        .map(([, init]) => JSON.parse(String(init?.body)))
+    }
+
+    it('Should rerun failed tests and report them as flaky', async () => {
+      mockRuns({ rerunFailed: '2' }, [
+        {
+          status: 'failed',
+          tests: [
+            { test_id: 't1', status: 'passed' },
+            { test_id: 't2', status: 'failed', error: 'Boom' }
+          ]
+        },
+        { status: 'passed', tests: [{ test_id: 't2', status: 'passed' }] }
+      ])
+
+      await run()
+
+      expect(triggerBodies()).toEqual([
+        { fail_fast: false },
+        { test_ids: ['t2'], fail_fast: false }
+      ])
+      expect(core.info).toHaveBeenCalledWith(
+        'Rerunning 1 failed tests (attempt 1/2)'
+      )
+      expect(core.setOutput).toHaveBeenCalledWith('status', 'flaky')
+      expect(core.setFailed).not.toHaveBeenCalled()
+
+      const [results] = summary.writeJobSummary.mock.calls[0]
+      expect(results.rerunIds).toEqual(['run-2'])
+      expect(results.getTest('t2')?.status).toBe('flaky')
+
+      // Annotated once the rerun passed, not as a failure
+      expect(core.warning).toHaveBeenCalledWith('Boom', {
+        title: 'Flaky test: t2'
+      })
+      expect(core.error).not.toHaveBeenCalled()
+    })
+
+    it('Should fail once the reruns run out', async () => {
+      const failed = {
+        status: 'failed',
+        tests: [{ test_id: 't1', status: 'failed' }]
+      }
+      mockRuns({ rerunFailed: '2' }, [failed, failed, failed])
+
+      await run()
+
+      expect(triggerBodies()).toHaveLength(3)
+      expect(core.error).toHaveBeenCalledTimes(1)
+      expect(core.error).toHaveBeenCalledWith('Test failed', {
+        title: 'Failed test: t1'
+      })
+      expect(core.setOutput).toHaveBeenCalledWith('status', 'failed')
+      expect(core.setFailed).toHaveBeenCalledTimes(1)
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'Test suite execution failed with status: failed'
+      )
+    })
+
+    it('Should stop a rerun at the overall timeout', async () => {
+      jest.useFakeTimers()
+      const start = Date.now()
+      mockRuns({ rerunFailed: '1', timeout: '3', pollInterval: '1' }, [
+        { status: 'failed', tests: [{ test_id: 't1', status: 'failed' }] },
+        { status: 'running', tests: [{ test_id: 't1', status: 'running' }] }
+      ])
+      // The first run takes 2s of the 3s timeout
+      const respond = fetchMock.getMockImplementation()!
+      fetchMock.mockImplementation(async (url, init) =>
+        String(url).endsWith('/run/run-1/status') && Date.now() - start < 2000
+          ? createMockResponse({
+              ok: true,
+              json: async () => ({ status: 'running', tests: [] })
+            })
+          : respond(url, init)
+      )
+
+      let finished = false
+      const runPromise = run().then(() => (finished = true))
+      await jest.advanceTimersByTimeAsync(3500)
+
+      // The rerun only gets the 1s that is left, not a timeout of its own
+      expect(finished).toBe(true)
+      expect(triggerBodies()).toHaveLength(2)
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'Timed out after 3s waiting for test suite completion'
+      )
+      expect(fetchMock).toHaveBeenCalledWith(
+        `${mockOriginUrl}/external/actions/run/run-2/cancel`,
+        expect.anything()
+      )
+
+      await jest.advanceTimersByTimeAsync(5000)
+      await runPromise
+      jest.useRealTimers()
+    })
+
+    it('Should not rerun without failed tests', async () => {
+      mockRuns({ rerunFailed: '1' }, [{ status: 'failed', tests: [] }])
+
+      await run()
+
+      expect(triggerBodies()).toHaveLength(1)
+      expect(core.warning).toHaveBeenCalledWith(
+        'No failed tests were reported, not rerunning'
+      )
+      expect(core.setOutput).toHaveBeenCalledWith('status', 'failed')
+    })
+
+    it('Should not rerun by default', async () => {
+      mockRuns({}, [
+        { status: 'failed', tests: [{ test_id: 't1', status: 'failed' }] }
+      ])
+
+      await run()
+
+      expect(triggerBodies()).toHaveLength(1)
+      expect(core.setOutput).toHaveBeenCalledWith('status', 'failed')
+    })
+  })
+
+  describe('Parallel runs', () => {
+    const triggerUrl = `${mockOriginUrl}/external/actions/trigger`
+
+    /**
+     * Serve one run per suite in poll mode, with the given final statuses
+     */
+    function mockSuites(
+      inputs: Record<string, string>,
+      statuses: Record<string, string>
+    ): void {
+      core.getInput.mockImplementation((name) => {
+        if (name === 'apiKey') return mockApiKey
+        if (name === 'originUrl') return mockOriginUrl
+        if (name === 'transport') return 'poll'
+        if (name === 'parallel') return 'true'
+        if (name === 'suiteIds') return Object.keys(statuses).join(',')
+        return inputs[name] ?? ''
+      })
+
+      fetchMock.mockImplementation(async (url, init) => {
+        if (url === triggerUrl) {
+          const [suiteId] = JSON.parse(String(init?.body)).suite_ids
+          return createMockResponse({
+            ok: true,
+            json: async () => ({ run_id: `run-${suiteId}` })
+          })
+        }
+
+        const match = String(url).match(/\/run\/run-(.+)\/status$/)
+        if (match) {
+          return createMockResponse({
+            ok: true,
+            json: async () => ({
+              status: statuses[match[1]],
+              test_suite_id: match[1],
+              tests: [{ test_id: `t-${match[1]}`, status: statuses[match[1]] }]
+            })
+          })
+        }
+
+        return createMockResponse({ ok: true, json: async () => ({}) })
+      })
+    }
+
+    function requests(): string[] {
+      return fetchMock.mock.calls
+        .map(([url, init]) =>
+          url === triggerUrl
+            ? `trigger ${JSON.parse(String(init?.body)).suite_ids}`
+            : String(url).replace(/^.*\/run\//, '')
+        )
+        .filter((request) => request !== `${mockOriginUrl}/version`)
+    }
+
+    it('Should trigger one run per suite and combine the outcome', async () => {
+      mockSuites({}, { a: 'passed', b: 'flaky', c: 'failed' })
+
+      await run()
+
+      expect(requests().filter((r) => r.startsWith('trigger'))).toEqual([
+        'trigger a',
+        'trigger b',
+        'trigger c'
+      ])
+      expect(core.setOutput).toHaveBeenCalledWith('runId', 'run-a,run-b,run-c')
+      expect(core.setOutput).toHaveBeenCalledWith(
+        'suiteStatuses',
+        JSON.stringify({ a: 'passed', b: 'flaky', c: 'failed' })
+      )
+      expect(core.setOutput).toHaveBeenCalledWith('status', 'failed')
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'Test suite execution failed with status: failed'
+      )
+      expect(core.info).toHaveBeenCalledWith('[b] Run ID: run-b')
+      expect(core.info).toHaveBeenCalledWith('[b] Run status: flaky')
+      expect(core.saveState).toHaveBeenCalledWith(
+        'runId',
+        expect.stringMatching(/^run-\w,run-\w,run-\w$/)
+      )
+
+      const [results] = summary.writeJobSummary.mock.calls[0]
+      expect(results.testResults.map((test) => test.id)).toEqual([
+        't-a',
+        't-b',
+        't-c'
+      ])
+    })
+
+    it('Should pass when every suite passed or was flaky', async () => {
+      mockSuites({}, { a: 'passed', b: 'flaky' })
+
+      await run()
+
+      expect(core.setOutput).toHaveBeenCalledWith('status', 'flaky')
+      expect(core.setFailed).not.toHaveBeenCalled()
+    })
+
+    it('Should limit the number of runs at once', async () => {
+      mockSuites({ maxConcurrency: '1' }, { a: 'passed', b: 'passed' })
+
+      await run()
+
+      expect(requests()).toEqual([
+        'trigger a',
+        'run-a/status',
+        'trigger b',
+        'run-b/status'
+      ])
+    })
+
+    it('Should trigger all runs at once without a limit', async () => {
+      mockSuites({ maxConcurrency: '0' }, { a: 'passed', b: 'passed' })
+
+      await run()
+
+      expect(requests().slice(0, 2)).toEqual(['trigger a', 'trigger b'])
+    })
+
+    it('Should report suites whose run could not be triggered', async () => {
+      mockSuites({}, { a: 'passed', b: 'passed' })
+      const serve = fetchMock.getMockImplementation()!
+      fetchMock.mockImplementation(async (url, init) => {
+        if (url === triggerUrl && String(init?.body).includes('"b"')) {
+          return createMockResponse({
+            ok: false,
+            status: 400,
+            text: async () => 'Unknown suite'
+          })
+        }
+        return serve(url, init)
+      })
+
+      await run()
+
+      expect(core.setFailed).toHaveBeenCalledWith(
+        '[b] Failed to trigger action: 400 Unknown suite'
+      )
+      expect(core.setOutput).toHaveBeenCalledWith('runId', 'run-a')
+      expect(core.setOutput).toHaveBeenCalledWith(
+        'suiteStatuses',
+        JSON.stringify({ a: 'passed', b: 'error' })
+      )
+      expect(core.setOutput).toHaveBeenCalledWith('status', 'error')
+    })
+
+    it('Should apply the timeout to all runs together', async () => {
+      jest.useFakeTimers()
+      mockSuites(
+        { maxConcurrency: '1', timeout: '2', pollInterval: '1' },
+        { a: 'running', b: 'running', c: 'running' }
+      )
+
+      const runPromise = run()
+      await jest.advanceTimersByTimeAsync(2500)
+      await runPromise
+
+      // Suites still queued at the deadline are not triggered at all
+      expect(requests().filter((r) => r.startsWith('trigger'))).toEqual([
+        'trigger a'
+      ])
+      expect(core.setFailed).toHaveBeenCalledWith(
+        '[a] Timed out after 2s waiting for test suite completion'
+      )
+      expect(core.setFailed).toHaveBeenCalledWith(
+        '[b] Not triggered, timed out after 2s'
+      )
+      expect(core.setOutput).toHaveBeenCalledWith(
+        'suiteStatuses',
+        JSON.stringify({ a: 'cancelled', b: 'cancelled', c: 'cancelled' })
+      )
+
+      jest.useRealTimers()
+    })
+
+    it('Should not trigger queued suites once the workflow is cancelled', async () => {
+      mockSuites(
+        { maxConcurrency: '1', pollInterval: '1' },
+        { a: 'running', b: 'running' }
+      )
+
+      const runPromise = run()
+      await new Promise((resolve) => setTimeout(resolve, 50))
+      process.emit('SIGTERM', 'SIGTERM')
+      await runPromise
+
+      expect(requests().filter((r) => r.startsWith('trigger'))).toEqual([
+        'trigger a'
+      ])
+      expect(core.setFailed).toHaveBeenCalledWith(
+        '[b] Not triggered, the workflow run was cancelled'
+      )
+    })
+
+    it('Should require suites to fan out to', async () => {
+      mockSuites({}, {})
+
+      await run()
+
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'The parallel input requires suiteIds, suiteNames or suiteTags'
+      )
+    })
+  })
+
+  describe('Pull request comment', () => {
+    function mockInputs(inputs: Record<string, string>): void {
+      core.getInput.mockImplementation((name) => {
+        if (name === 'apiKey') return mockApiKey
+        if (name === 'originUrl') return mockOriginUrl
+        return inputs[name] ?? ''
+      })
+    }
+
+    it('Should post the comment when githubToken is set', async () => {
+      mockInputs({ githubToken: 'gh-token', commentKey: 'chrome' })
+
+      await run()
+
+      expect(comment.postPullRequestComment).toHaveBeenCalledWith(
+        expect.objectContaining({ runId: mockRunId, status: 'passed' }),
+        'gh-token',
+        'chrome'
+      )
+    })
+
+    it('Should not post the comment by default', async () => {
+      mockInputs({})
+
+      await run()
+
+      expect(comment.postPullRequestComment).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Check runs', () => {
+    function mockInputs(inputs: Record<string, string>): void {
+      core.getInput.mockImplementation((name) => {
+        if (name === 'apiKey') return mockApiKey
+        if (name === 'originUrl') return mockOriginUrl
+        if (name === 'suiteIds') return 'suite1,suite2'
+        return inputs[name] ?? ''
+      })
+    }
+
+    it('Should complete the check runs once the run finished', async () => {
+      const complete = jest.fn(async () => {})
+      checks.startCheckRuns.mockReturnValue({ complete } as never)
+      mockInputs({ checkRuns: 'true', githubToken: 'gh-token' })
+
+      await run()
+
+      const [results, token] = checks.startCheckRuns.mock.calls[0]
+      expect(token).toBe('gh-token')
+      expect(Array.from(results.suiteIds)).toEqual(['suite1', 'suite2'])
+      expect(complete).toHaveBeenCalledTimes(1)
+      expect(core.setFailed).not.toHaveBeenCalled()
+    })
+
+    it('Should skip check runs without githubToken', async () => {
+      mockInputs({ checkRuns: 'true' })
+
+      await run()
+
+      expect(checks.startCheckRuns).not.toHaveBeenCalled()
+      expect(core.warning).toHaveBeenCalledWith(
+        'checkRuns requires githubToken, skipping check runs'
+      )
+    })
+
+    it('Should not publish check runs by default', async () => {
+      mockInputs({ githubToken: 'gh-token' })
+
+      await run()
+
+      expect(checks.startCheckRuns).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Test-level events', () => {
+    it('Should annotate failed and flaky tests once', async () => {
+      core.getInput.mockImplementation((name) => {
+        if (name === 'apiKey') return mockApiKey
+        if (name === 'originUrl') return mockOriginUrl
+        if (name === 'dashboardUrl') return 'https://app.desplega.ai'
+        return ''
+      })
+
+      fetchMock.mockImplementation(async (url) => {
+        if (url === `${mockOriginUrl}/external/actions/trigger`) {
+          return createMockResponse({
+            ok: true,
+            json: async () => ({ run_id: mockRunId })
+          })
+        } else if (
+          url === `${mockOriginUrl}/external/actions/run/${mockRunId}/events`
+        ) {
+          const failed =
+            'event: test_run.event\ndata: {"test_id": "t1", "test_name": "Checkout", "status": "failed", "failed_step": "Click pay", "error": "Element not found"}\n\n'
+          const encoder = new TextEncoder()
+          mockReader.setEvents([
+            {
+              done: false,
+              value: encoder.encode(
+                'event: test_run.event\ndata: {"test_id": "t1", "test_name": "Checkout", "status": "running"}\n\n'
+              )
+            },
+            { done: false, value: encoder.encode(failed) },
+            // Replayed by the server, must not be annotated twice
+            { done: false, value: encoder.encode(failed) },
+            {
+              done: false,
+              value: encoder.encode(
+                'event: test_run.event\ndata: {"test_id": "t2", "test_name": "Search", "status": "flaky", "error": "Timed out once"}\n\n'
+              )
+            },
+            {
+              done: false,
+              value: encoder.encode(
+                'event: test_suite_run.event\ndata: {"status": "failed", "test_ids": ["t1", "t2"]}\n\n'
+              )
+            }
+          ])
+
+          return createMockResponse({ ok: true, body: mockBody })
+        }
+
+        return createMockResponse({ ok: true, json: async () => ({}) })
+      })
+
+      await run()
+
+      expect(core.error).toHaveBeenCalledTimes(1)
+      expect(core.error).toHaveBeenCalledWith(
+        `Step: Click pay\nElement not found\nDetails: https://app.desplega.ai/runs/${mockRunId}/tests/t1`,
+        { title: 'Failed test: Checkout' }
+      )
+      expect(core.warning).toHaveBeenCalledWith(
+        `Timed out once\nDetails: https://app.desplega.ai/runs/${mockRunId}/tests/t2`,
+        { title: 'Flaky test: Search' }
+      )
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'Test suite execution failed with status: failed'
+      )
+    })
+  })
 })
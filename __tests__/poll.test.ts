@@ -0,0 +1,202 @@
+/**
+ * Unit tests for src/poll.ts
+ */
+import { jest } from '@jest/globals'
+import * as core from '../__fixtures__/core.js'
+
+const fetchMock = jest.fn<typeof fetch>()
+global.fetch = fetchMock
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  })
+}
+
+jest.unstable_mockModule('@actions/core', () => core)
+
+const { DesplegaClient } = await import('../src/desplega.js')
+const { pollRunStatus } = await import('../src/poll.js')
+const { RunResults } = await import('../src/results.js')
+
+describe('poll.ts', () => {
+  const url = 'https://test-origin.com/external/actions/run/run-1/status'
+  const client = new DesplegaClient('https://test-origin.com', 'key')
+
+  let results: InstanceType<typeof RunResults>
+
+  beforeEach(() => {
+    results = new RunResults('run-1')
+    jest.resetAllMocks()
+    jest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('Polls until the run reaches a final status', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(200, { status: 'pending' }))
+      .mockResolvedValueOnce(jsonResponse(200, { status: 'running' }))
+      .mockResolvedValueOnce(jsonResponse(200, { status: 'running' }))
+      .mockResolvedValueOnce(jsonResponse(200, { status: 'passed' }))
+
+    const promise = pollRunStatus(
+      client,
+      'run-1',
+      new AbortController().signal,
+      2,
+      results
+    )
+    await jest.advanceTimersByTimeAsync(6000)
+    await promise
+
+    expect(fetchMock).toHaveBeenCalledTimes(4)
+    expect(fetchMock).toHaveBeenCalledWith(
+      url,
+      expect.objectContaining({
+        method: 'GET',
+        headers: { 'X-Api-Key': 'key' }
+      })
+    )
+    // Only status changes are logged
+    expect(core.info).toHaveBeenCalledTimes(3)
+    expect(results.status).toBe('passed')
+    // The final status is reported by the caller
+    expect(core.setOutput).not.toHaveBeenCalled()
+  })
+
+  it('Records the run state from status responses', async () => {
+    fetchMock.mockResolvedValueOnce(
+      jsonResponse(200, {
+        status: 'failed',
+        elapsed: 12.5,
+        test_suite_id: 'suite-1',
+        test_ids: ['t1', 't2'],
+        tests: [{ test_id: 't2', status: 'failed', error: 'Boom' }]
+      })
+    )
+
+    await pollRunStatus(
+      client,
+      'run-1',
+      new AbortController().signal,
+      2,
+      results
+    )
+
+    expect(results.status).toBe('failed')
+    expect(results.elapsed).toBe(12.5)
+    expect(results.testResults).toEqual([
+      { id: 't1', suiteId: 'suite-1', status: 'pending' },
+      { id: 't2', suiteId: 'suite-1', status: 'failed', error: 'Boom' }
+    ])
+  })
+
+  it('Stops polling once the run failed', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse(200, { status: 'failed' }))
+
+    await pollRunStatus(
+      client,
+      'run-1',
+      new AbortController().signal,
+      2,
+      results
+    )
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(results.status).toBe('failed')
+    expect(core.setFailed).not.toHaveBeenCalled()
+  })
+
+  it('Backs off on 5xx responses and network errors', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(503, {}))
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(jsonResponse(200, { status: 'passed' }))
+
+    const promise = pollRunStatus(
+      client,
+      'run-1',
+      new AbortController().signal,
+      1,
+      results
+    )
+
+    await jest.advanceTimersByTimeAsync(1999)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+
+    await jest.advanceTimersByTimeAsync(1)
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+
+    await jest.advanceTimersByTimeAsync(4000)
+    await promise
+
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+    expect(core.warning).toHaveBeenCalledWith(
+      'Status request failed (503 {}), retrying in 2000ms'
+    )
+    expect(core.warning).toHaveBeenCalledWith(
+      'Status request failed (fetch failed), retrying in 4000ms'
+    )
+    expect(results.status).toBe('passed')
+  })
+
+  it('Gives up after repeated failures', async () => {
+    fetchMock.mockImplementation(
+      async () => new Response('Bad Gateway', { status: 502 })
+    )
+
+    const error = pollRunStatus(
+      client,
+      'run-1',
+      new AbortController().signal,
+      1,
+      results
+    ).catch((e: unknown) => e)
+
+    await jest.advanceTimersByTimeAsync(120_000)
+
+    expect(await error).toEqual(
+      new Error('Gave up after 5 failed status requests: 502 Bad Gateway')
+    )
+
+    expect(fetchMock).toHaveBeenCalledTimes(6)
+  })
+
+  it('Does not retry 4xx responses', async () => {
+    fetchMock.mockResolvedValueOnce(
+      new Response('Unauthorized', { status: 401 })
+    )
+
+    await expect(
+      pollRunStatus(client, 'run-1', new AbortController().signal, 1, results)
+    ).rejects.toThrow(
+      'Failed to fetch the status of run run-1: 401 Unauthorized'
+    )
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('Stops when aborted', async () => {
+    const abortController = new AbortController()
+    fetchMock.mockResolvedValue(jsonResponse(200, { status: 'running' }))
+
+    const error = pollRunStatus(
+      client,
+      'run-1',
+      abortController.signal,
+      5,
+      results
+    ).catch((e: unknown) => e)
+
+    await jest.advanceTimersByTimeAsync(1000)
+    abortController.abort()
+
+    expect(await error).toHaveProperty('name', 'AbortError')
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,161 @@
+/**
+ * Unit tests for src/report.ts
+ */
+import { jest } from '@jest/globals'
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import * as core from '../__fixtures__/core.js'
+
+jest.unstable_mockModule('@actions/core', () => core)
+
+const { buildResultsReport, setResultOutputs, writeResultsFile } = await import(
+  '../src/report.js'
+)
+const { RunResults } = await import('../src/results.js')
+
+describe('report.ts', () => {
+  function sampleResults(): InstanceType<typeof RunResults> {
+    const results = new RunResults('run-1', 'https://app.desplega.ai')
+
+    results.recordSuiteEvent({
+      status: 'failed',
+      start_time: '2025-05-21T21:45:33.000000+00:00',
+      end_time: '2025-05-21T21:45:42.500000+00:00',
+      test_suite_id: 'suite-1',
+      test_ids: ['t1', 't2', 't3', 't4']
+    })
+    results.recordTestEvent({
+      test_id: 't1',
+      test_name: 'Login',
+      status: 'passed',
+      elapsed: 1.25
+    })
+    results.recordTestEvent({
+      test_id: 't2',
+      test_name: 'Checkout',
+      status: 'failed',
+      elapsed: 4,
+      failed_step: 'Click pay',
+      error: 'Element not found'
+    })
+    results.recordTestEvent({
+      test_id: 't3',
+      test_name: 'Search',
+      status: 'flaky',
+      elapsed: 2.0004
+    })
+
+    return results
+  }
+
+  beforeEach(() => {
+    jest.resetAllMocks()
+  })
+
+  it('Builds the results document', () => {
+    const report = buildResultsReport(sampleResults())
+
+    expect(report).toMatchObject({
+      schemaVersion: 1,
+      runId: 'run-1',
+      status: 'failed',
+      url: 'https://app.desplega.ai/runs/run-1',
+      durationSeconds: 9.5,
+      rerunIds: [],
+      counts: { total: 4, passed: 1, failed: 1, flaky: 1, skipped: 1 },
+      suites: [
+        {
+          id: 'suite-1',
+          status: 'failed',
+          durationSeconds: 7.25,
+          counts: { total: 4, passed: 1, failed: 1, flaky: 1, skipped: 1 }
+        }
+      ]
+    })
+    expect(report.tests[1]).toEqual({
+      id: 't2',
+      name: 'Checkout',
+      suiteId: 'suite-1',
+      status: 'failed',
+      durationSeconds: 4,
+      failedStep: 'Click pay',
+      error: 'Element not found',
+      runId: undefined,
+      url: 'https://app.desplega.ai/runs/run-1/tests/t2'
+    })
+    expect(report.tests[2].durationSeconds).toBe(2)
+    expect(report.tests[3]).toMatchObject({ id: 't4', status: 'pending' })
+  })
+
+  it('Prefers the elapsed time reported by the API', () => {
+    const results = sampleResults()
+    results.recordSuiteEvent({ status: 'failed', elapsed: 8.1234 })
+
+    expect(buildResultsReport(results).durationSeconds).toBe(8.123)
+  })
+
+  it('Sets the result outputs', () => {
+    setResultOutputs(sampleResults())
+
+    expect(core.setOutput).toHaveBeenCalledWith('passedCount', 1)
+    expect(core.setOutput).toHaveBeenCalledWith('failedCount', 1)
+    expect(core.setOutput).toHaveBeenCalledWith('flakyCount', 1)
+    expect(core.setOutput).toHaveBeenCalledWith('durationSeconds', 9.5)
+    expect(core.setOutput).toHaveBeenCalledWith(
+      'reportUrl',
+      'https://app.desplega.ai/runs/run-1'
+    )
+    expect(core.setOutput).toHaveBeenCalledWith(
+      'failedTests',
+      '[{"id":"t2","name":"Checkout","suiteId":"suite-1"}]'
+    )
+  })
+
+  it('Leaves out unknown durations and links', () => {
+    setResultOutputs(new RunResults('run-1'))
+
+    expect(core.setOutput).toHaveBeenCalledWith('failedTests', '[]')
+    expect(core.setOutput).not.toHaveBeenCalledWith(
+      'durationSeconds',
+      expect.anything()
+    )
+    expect(core.setOutput).not.toHaveBeenCalledWith(
+      'reportUrl',
+      expect.anything()
+    )
+  })
+
+  describe('writeResultsFile', () => {
+    let tempDir: string
+
+    beforeAll(() => {
+      tempDir = mkdtempSync(path.join(tmpdir(), 'report-'))
+    })
+
+    afterAll(() => {
+      rmSync(tempDir, { recursive: true, force: true })
+    })
+
+    it('Writes the file and sets the output', async () => {
+      const resultsPath = path.join(tempDir, 'nested', 'results.json')
+
+      await writeResultsFile(sampleResults(), resultsPath)
+
+      const report = JSON.parse(readFileSync(resultsPath, 'utf8'))
+      expect(report).toMatchObject({ runId: 'run-1', status: 'failed' })
+      expect(core.setOutput).toHaveBeenCalledWith('resultsPath', resultsPath)
+    })
+
+    it('Warns instead of failing when the file cannot be written', async () => {
+      const resultsPath = path.join(tempDir, 'results.json')
+
+      await writeResultsFile(sampleResults(), resultsPath)
+      await writeResultsFile(sampleResults(), path.join(resultsPath, 'x.json'))
+
+      expect(core.warning).toHaveBeenCalledWith(
+        expect.stringContaining('Failed to write results file:')
+      )
+    })
+  })
+})
@@ -0,0 +1,188 @@
+/**
+ * Unit tests for src/results.ts
+ */
+import { combineStatuses, RunResults } from '../src/results.js'
+
+describe('results.ts', () => {
+  it('Builds the dashboard link for the run', () => {
+    expect(new RunResults('a b', 'https://app.desplega.ai/').runUrl).toBe(
+      'https://app.desplega.ai/runs/a%20b'
+    )
+    expect(new RunResults('run-1').runUrl).toBeUndefined()
+  })
+
+  it('Tracks the latest suite state', () => {
+    const results = new RunResults('run-1', undefined, ['suite-1'])
+
+    results.recordSuiteEvent({
+      status: 'running',
+      start_time: '2025-05-21T21:45:33Z',
+      test_suite_id: 'suite-2',
+      test_ids: ['t1']
+    })
+    results.recordSuiteEvent({
+      status: 'passed',
+      elapsed: 4.6,
+      end_time: '2025-05-21T21:45:37Z',
+      test_suite_id: 'suite-2',
+      test_ids: ['t1', 't2']
+    })
+
+    expect(results.status).toBe('passed')
+    expect(results.startTime).toBe('2025-05-21T21:45:33Z')
+    expect(results.endTime).toBe('2025-05-21T21:45:37Z')
+    expect(results.elapsed).toBe(4.6)
+    expect(Array.from(results.suiteIds)).toEqual(['suite-1', 'suite-2'])
+    expect(results.testResults.map((test) => test.id)).toEqual(['t1', 't2'])
+  })
+
+  it('Merges test events into the known tests', () => {
+    const results = new RunResults('run-1')
+
+    results.recordSuiteEvent({ status: 'running', test_ids: ['t1', 't2'] })
+    results.recordTestEvent({
+      test_id: 't2',
+      test_name: 'B',
+      status: 'running'
+    })
+    results.recordTestEvent({
+      test_id: 't2',
+      status: 'failed',
+      elapsed: 3,
+      failed_step: 'Step 2',
+      error: 'Boom'
+    })
+    results.recordTestEvent({ test_id: 't3', status: 'passed' })
+
+    expect(results.testResults).toEqual([
+      { id: 't1', status: 'pending' },
+      {
+        id: 't2',
+        name: 'B',
+        status: 'failed',
+        elapsed: 3,
+        failedStep: 'Step 2',
+        error: 'Boom'
+      },
+      { id: 't3', status: 'passed' }
+    ])
+    expect(results.count('failed')).toBe(1)
+    expect(results.count('flaky')).toBe(0)
+  })
+  describe('Reruns', () => {
+    function failedRun(): RunResults {
+      const results = new RunResults('run-1', undefined, ['suite-1'])
+
+      results.recordSuiteEvent({
+        status: 'failed',
+        elapsed: 10,
+        test_suite_id: 'suite-1',
+        test_ids: ['t1', 't2', 't3']
+      })
+      results.recordTestEvent({ test_id: 't1', status: 'passed' })
+      results.recordTestEvent({ test_id: 't2', status: 'failed', error: 'A' })
+      results.recordTestEvent({ test_id: 't3', status: 'error', error: 'B' })
+
+      return results
+    }
+
+    it('Lists the failed tests', () => {
+      expect(failedRun().failedTestIds).toEqual(['t2', 't3'])
+    })
+
+    it('Marks tests that pass on a rerun as flaky', () => {
+      const results = failedRun()
+      const suiteStatuses: string[] = []
+      results.onSuiteEvent((event) => suiteStatuses.push(event.status))
+
+      const rerun = new RunResults('run-2')
+      rerun.recordSuiteEvent({ status: 'passed', elapsed: 5 })
+      rerun.recordTestEvent({ test_id: 't2', status: 'passed' })
+      rerun.recordTestEvent({ test_id: 't3', status: 'passed' })
+      results.mergeRerun(rerun)
+
+      expect(results.status).toBe('flaky')
+      expect(results.rerunIds).toEqual(['run-2'])
+      expect(results.elapsed).toBe(15)
+      expect(results.testResults.map((test) => test.status)).toEqual([
+        'passed',
+        'flaky',
+        'flaky'
+      ])
+      // The error of the original failure is kept
+      expect(results.getTest('t2')?.error).toBe('A')
+      expect(suiteStatuses).toEqual(['flaky'])
+    })
+
+    it('Keeps the latest failure of tests that fail again', () => {
+      const results = failedRun()
+
+      const rerun = new RunResults('run-2')
+      rerun.recordSuiteEvent({ status: 'failed' })
+      rerun.recordTestEvent({ test_id: 't2', status: 'passed' })
+      rerun.recordTestEvent({ test_id: 't3', status: 'failed', error: 'C' })
+      results.mergeRerun(rerun)
+
+      expect(results.status).toBe('failed')
+      expect(results.failedTestIds).toEqual(['t3'])
+      expect(results.getTest('t3')).toMatchObject({
+        status: 'failed',
+        error: 'C'
+      })
+    })
+  })
+  describe('Parallel runs', () => {
+    it('Combines statuses by precedence', () => {
+      expect(combineStatuses(['passed', 'flaky'])).toBe('flaky')
+      expect(combineStatuses(['flaky', 'failed', 'passed'])).toBe('failed')
+      expect(combineStatuses(['failed', 'error', 'passed'])).toBe('error')
+      expect(combineStatuses(['error', 'cancelled'])).toBe('cancelled')
+      expect(combineStatuses([])).toBe('passed')
+    })
+
+    it('Combines the results of one run per suite', () => {
+      const first = new RunResults('run-1', 'https://app.desplega.ai', [
+        'suite-1'
+      ])
+      first.recordSuiteEvent({
+        status: 'passed',
+        test_suite_id: 'suite-1',
+        start_time: '2025-05-21T21:45:35Z',
+        end_time: '2025-05-21T21:45:40Z',
+        elapsed: 5
+      })
+      first.recordTestEvent({ test_id: 't1', status: 'passed' })
+
+      const second = new RunResults('run-2', 'https://app.desplega.ai', [
+        'suite-2'
+      ])
+      second.recordSuiteEvent({
+        status: 'failed',
+        test_suite_id: 'suite-2',
+        start_time: '2025-05-21T21:45:33Z',
+        end_time: '2025-05-21T21:45:39Z',
+        elapsed: 6
+      })
+      second.recordTestEvent({ test_id: 't2', status: 'failed' })
+
+      const combined = RunResults.combine(
+        [first, second],
+        'https://app.desplega.ai/'
+      )
+
+      expect(combined.runId).toBe('run-1, run-2')
+      expect(combined.runUrl).toBeUndefined()
+      expect(combined.status).toBe('failed')
+      expect(Object.fromEntries(combined.suiteStatuses)).toEqual({
+        'suite-1': 'passed',
+        'suite-2': 'failed'
+      })
+      expect(combined.startTime).toBe('2025-05-21T21:45:33Z')
+      expect(combined.endTime).toBe('2025-05-21T21:45:40Z')
+      expect(combined.elapsed).toBe(6)
+      expect(combined.testUrl('t2')).toBe(
+        'https://app.desplega.ai/runs/run-2/tests/t2'
+      )
+    })
+  })
+})
@@ -0,0 +1,94 @@
+/**
+ * Unit tests for src/retry.ts
+ */
+import { jest } from '@jest/globals'
+import * as core from '../__fixtures__/core.js'
+
+jest.unstable_mockModule('@actions/core', () => core)
+
+const { HttpError, isRetryable } = await import('../src/errors.js')
+const { parseRetryAfter, retryDelay, withRetry } = await import(
+  '../src/retry.js'
+)
+
+describe('retry.ts', () => {
+  const policy = { baseDelayMs: 100, maxDelayMs: 1000, maxElapsedMs: 5000 }
+  let random: jest.SpiedFunction<typeof Math.random>
+
+  beforeEach(() => {
+    jest.resetAllMocks()
+    random = jest.spyOn(Math, 'random').mockReturnValue(1)
+  })
+
+  afterEach(() => {
+    random.mockRestore()
+  })
+
+  it('Parses Retry-After seconds and dates', () => {
+    const now = Date.parse('2025-01-01T00:00:00Z')
+
+    expect(parseRetryAfter('7', now)).toBe(7000)
+    expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:30 GMT', now)).toBe(30000)
+    expect(parseRetryAfter('Tue, 31 Dec 2024 23:59:00 GMT', now)).toBe(0)
+    expect(parseRetryAfter('soon', now)).toBeUndefined()
+    expect(parseRetryAfter(null, now)).toBeUndefined()
+  })
+
+  it('Grows the backoff up to the maximum delay', () => {
+    expect(retryDelay(policy, 0)).toBe(100)
+    expect(retryDelay(policy, 3)).toBe(800)
+    expect(retryDelay(policy, 4)).toBe(1000)
+    expect(retryDelay(policy, 1, undefined, 5)).toBe(10)
+
+    random.mockReturnValue(0.25)
+    expect(retryDelay(policy, 2)).toBe(100)
+  })
+
+  it('Waits as long as Retry-After asks', () => {
+    const error = new HttpError('trigger action', 429, '', 2500)
+
+    expect(retryDelay(policy, 0, error)).toBe(2500)
+    expect(
+      retryDelay(policy, 0, new HttpError('trigger action', 503, ''))
+    ).toBe(100)
+  })
+
+  it('Retries retryable errors until the function succeeds', async () => {
+    random.mockReturnValue(0)
+    const fn = jest
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new HttpError('trigger action', 503, ''))
+      .mockResolvedValueOnce('ok')
+
+    await expect(
+      withRetry(fn, { policy, maxRetries: 2, isRetryable })
+    ).resolves.toBe('ok')
+    expect(fn).toHaveBeenCalledTimes(2)
+    expect(core.info).toHaveBeenCalledWith(
+      'Attempt 1 failed, retrying in 0ms...'
+    )
+  })
+
+  it('Does not retry other errors', async () => {
+    const error = new HttpError('trigger action', 400, 'Bad Request')
+    const fn = jest.fn<() => Promise<string>>().mockRejectedValue(error)
+
+    await expect(
+      withRetry(fn, { policy, maxRetries: 2, isRetryable })
+    ).rejects.toBe(error)
+    expect(fn).toHaveBeenCalledTimes(1)
+  })
+
+  it('Gives up when the total retry time would be exceeded', async () => {
+    const error = new HttpError('trigger action', 429, '', 60000)
+    const fn = jest.fn<() => Promise<string>>().mockRejectedValue(error)
+
+    await expect(
+      withRetry(fn, { policy, maxRetries: 5, isRetryable })
+    ).rejects.toBe(error)
+    expect(fn).toHaveBeenCalledTimes(1)
+    expect(core.info).toHaveBeenCalledWith(
+      'Not retrying, the total retry time of 5000ms would be exceeded'
+    )
+  })
+})
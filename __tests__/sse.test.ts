@@ -0,0 +1,216 @@
+/**
+ * Unit tests for src/sse.ts
+ */
+import {
+  readServerSentEvents,
+  ServerSentEvent,
+  SSEDecoder
+} from '../src/sse.js'
+
+const encoder = new TextEncoder()
+
+// Decode a list of string chunks and collect every dispatched event
+function decodeAll(
+  chunks: Array<string | Uint8Array>,
+  decoder = new SSEDecoder()
+): ServerSentEvent[] {
+  return chunks.flatMap((chunk) =>
+    decoder.decode(typeof chunk === 'string' ? encoder.encode(chunk) : chunk)
+  )
+}
+
+describe('sse.ts', () => {
+  describe('SSEDecoder', () => {
+    it('Dispatches an event with the default message type', () => {
+      expect(decodeAll(['data: hello\n\n'])).toEqual([
+        { type: 'message', data: 'hello', id: '' }
+      ])
+    })
+
+    it('Parses event, id and data fields', () => {
+      expect(
+        decodeAll(['id: 42\nevent: test_suite_run.event\ndata: {"a":1}\n\n'])
+      ).toEqual([{ type: 'test_suite_run.event', data: '{"a":1}', id: '42' }])
+    })
+
+    it('Joins multi-line data with newlines', () => {
+      expect(decodeAll(['data: line 1\ndata: line 2\ndata\n\n'])).toEqual([
+        { type: 'message', data: 'line 1\nline 2\n', id: '' }
+      ])
+    })
+
+    it('Strips only a single leading space from values', () => {
+      expect(decodeAll(['data:no space\n\ndata:  two spaces\n\n'])).toEqual([
+        { type: 'message', data: 'no space', id: '' },
+        { type: 'message', data: ' two spaces', id: '' }
+      ])
+    })
+
+    it.each([
+      ['LF', '\n'],
+      ['CRLF', '\r\n'],
+      ['CR', '\r']
+    ])('Handles %s line endings', (_, eol) => {
+      expect(
+        decodeAll([`event: a${eol}data: 1${eol}${eol}data: 2${eol}${eol}`])
+      ).toEqual([
+        { type: 'a', data: '1', id: '' },
+        { type: 'message', data: '2', id: '' }
+      ])
+    })
+
+    it('Handles a CRLF pair split across chunks', () => {
+      expect(decodeAll(['data: 1\r', '\n\r', '\n'])).toEqual([
+        { type: 'message', data: '1', id: '' }
+      ])
+    })
+
+    it('Dispatches on a trailing CR without waiting for the next chunk', () => {
+      const decoder = new SSEDecoder()
+
+      expect(decodeAll(['data: 1\r\r'], decoder)).toEqual([
+        { type: 'message', data: '1', id: '' }
+      ])
+      expect(decodeAll(['\ndata: 2\n\n'], decoder)).toEqual([
+        { type: 'message', data: '2', id: '' }
+      ])
+    })
+
+    it('Strips a leading byte order mark', () => {
+      const bom = new Uint8Array([0xef, 0xbb, 0xbf])
+
+      expect(decodeAll([bom, 'data: x\n\n'])).toEqual([
+        { type: 'message', data: 'x', id: '' }
+      ])
+    })
+
+    it('Handles multi-byte characters split across chunks', () => {
+      const bytes = encoder.encode('data: ✓\n\n')
+
+      expect(decodeAll([bytes.slice(0, 7), bytes.slice(7)])).toEqual([
+        { type: 'message', data: '✓', id: '' }
+      ])
+    })
+
+    it('Ignores comments and unknown fields', () => {
+      expect(
+        decodeAll([': keep-alive\nfoo: bar\ndata: x\n:another\n\n'])
+      ).toEqual([{ type: 'message', data: 'x', id: '' }])
+    })
+
+    it('Does not dispatch events without data', () => {
+      const decoder = new SSEDecoder()
+
+      expect(decodeAll(['event: ping\n\n'], decoder)).toEqual([])
+      // The discarded event type must not leak into the next event
+      expect(decodeAll(['data: x\n\n'], decoder)).toEqual([
+        { type: 'message', data: 'x', id: '' }
+      ])
+    })
+
+    it('Keeps the last event ID across events', () => {
+      const decoder = new SSEDecoder()
+
+      expect(decodeAll(['id: 1\ndata: a\n\ndata: b\n\n'], decoder)).toEqual([
+        { type: 'message', data: 'a', id: '1' },
+        { type: 'message', data: 'b', id: '1' }
+      ])
+      expect(decoder.lastEventId).toBe('1')
+    })
+
+    it('Updates the last event ID from events without data', () => {
+      const decoder = new SSEDecoder()
+
+      decodeAll(['id: 7\n\n'], decoder)
+
+      expect(decoder.lastEventId).toBe('7')
+    })
+
+    it('Resets the last event ID with an empty id field', () => {
+      const decoder = new SSEDecoder('5')
+
+      expect(decodeAll(['id\ndata: x\n\n'], decoder)).toEqual([
+        { type: 'message', data: 'x', id: '' }
+      ])
+    })
+
+    it('Ignores ids containing NULL', () => {
+      const decoder = new SSEDecoder('5')
+
+      expect(decodeAll(['id: a\0b\ndata: x\n\n'], decoder)).toEqual([
+        { type: 'message', data: 'x', id: '5' }
+      ])
+    })
+
+    it('Does not commit the id of an unterminated event', () => {
+      const decoder = new SSEDecoder('1')
+
+      decodeAll(['id: 2\ndata: x\n'], decoder)
+
+      expect(decoder.lastEventId).toBe('1')
+    })
+
+    it('Only accepts retry values made of digits', () => {
+      const decoder = new SSEDecoder()
+
+      decodeAll(['retry: 2500\n\n'], decoder)
+      expect(decoder.retry).toBe(2500)
+
+      decodeAll(['retry: 10s\n\nretry: -1\n\n'], decoder)
+      expect(decoder.retry).toBe(2500)
+    })
+
+    it('Keeps incomplete events until they are terminated', () => {
+      const decoder = new SSEDecoder()
+
+      expect(decodeAll(['event: a\nda'], decoder)).toEqual([])
+      expect(decodeAll(['ta: {"status":', ' "passed"}\n'], decoder)).toEqual([])
+      expect(decodeAll(['\n'], decoder)).toEqual([
+        { type: 'a', data: '{"status": "passed"}', id: '' }
+      ])
+    })
+  })
+
+  describe('readServerSentEvents', () => {
+    function readerOf(
+      ...chunks: string[]
+    ): ReadableStreamDefaultReader<Uint8Array> {
+      return new ReadableStream<Uint8Array>({
+        start(controller) {
+          for (const chunk of chunks) controller.enqueue(encoder.encode(chunk))
+          controller.close()
+        }
+      }).getReader()
+    }
+
+    it('Yields events until the stream ends', async () => {
+      const events: ServerSentEvent[] = []
+
+      for await (const event of readServerSentEvents(
+        readerOf('data: 1\n\nid: x\nda', 'ta: 2\n\n')
+      )) {
+        events.push(event)
+      }
+
+      expect(events).toEqual([
+        { type: 'message', data: '1', id: '' },
+        { type: 'message', data: '2', id: 'x' }
+      ])
+    })
+
+    it('Discards an unterminated event at the end of the stream', async () => {
+      const decoder = new SSEDecoder()
+      const events: ServerSentEvent[] = []
+
+      for await (const event of readServerSentEvents(
+        readerOf('data: 1\n\nid: 2\ndata: 2'),
+        decoder
+      )) {
+        events.push(event)
+      }
+
+      expect(events).toEqual([{ type: 'message', data: '1', id: '' }])
+      expect(decoder.lastEventId).toBe('')
+    })
+  })
+})
@@ -0,0 +1,75 @@
+/**
+ * Unit tests for src/suites.ts
+ */
+import { jest } from '@jest/globals'
+import * as core from '../__fixtures__/core.js'
+
+const fetchMock = jest.fn<typeof fetch>()
+global.fetch = fetchMock
+
+jest.unstable_mockModule('@actions/core', () => core)
+
+const { DesplegaClient } = await import('../src/desplega.js')
+const { globToRegExp, matchSuites, resolveSuiteIds } = await import(
+  '../src/suites.js'
+)
+
+describe('suites.ts', () => {
+  const originUrl = 'https://test-origin.com'
+  const suites = [
+    { id: 's1', name: 'Checkout', tags: ['smoke', 'payments'] },
+    { id: 's2', name: 'Checkout (guest)', tags: ['payments'] },
+    { id: 's3', name: 'Login', tags: ['smoke'] },
+    { id: 's4', name: 'Search' },
+    { id: 's5', name: 'Search' }
+  ]
+
+  beforeEach(() => {
+    jest.resetAllMocks()
+  })
+
+  it('Converts globs to regular expressions', () => {
+    expect(globToRegExp('Checkout*').test('Checkout (guest)')).toBe(true)
+    expect(globToRegExp('Log?n').test('Login')).toBe(true)
+    expect(globToRegExp('Checkout (guest)').test('Checkout (guest)')).toBe(true)
+    expect(globToRegExp('Checkout').test('Checkout (guest)')).toBe(false)
+    expect(globToRegExp('a.b').test('axb')).toBe(false)
+  })
+
+  it('Selects suites by name and tag, in listing order', () => {
+    expect(
+      matchSuites(suites, ['Login', 'Checkout*'], ['pay*']).map((s) => s.id)
+    ).toEqual(['s1', 's2', 's3'])
+    expect(matchSuites(suites, [], ['smoke']).map((s) => s.id)).toEqual([
+      's1',
+      's3'
+    ])
+  })
+
+  it('Rejects names and tags that match nothing', () => {
+    expect(() => matchSuites(suites, ['Logout'], [])).toThrow(
+      'No suite matches the name "Logout"'
+    )
+    expect(() => matchSuites(suites, [], ['nightly*'])).toThrow(
+      'No suite has a tag matching "nightly*"'
+    )
+  })
+
+  it('Rejects plain names that match more than one suite', () => {
+    expect(() => matchSuites(suites, ['Search'], [])).toThrow(
+      'The suite name "Search" matches more than one suite: "Search" (s4), "Search" (s5)'
+    )
+    expect(matchSuites(suites, ['Sea*'], [])).toHaveLength(2)
+  })
+
+  it('Resolves suite IDs and logs the mapping', async () => {
+    fetchMock.mockResolvedValueOnce(Response.json({ suites }))
+
+    const client = new DesplegaClient(originUrl, 'key')
+    const ids = await resolveSuiteIds(client, ['Login'], [])
+
+    expect(ids).toEqual(['s3'])
+    expect(core.info).toHaveBeenCalledWith('Resolved suites:')
+    expect(core.info).toHaveBeenCalledWith('- Login [smoke] -> s3')
+  })
+})
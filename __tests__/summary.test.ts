@@ -0,0 +1,138 @@
+/**
+ * Unit tests for src/summary.ts
+ *
+ * The real '@actions/core' summary is used, writing to a temporary file.
+ */
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import * as core from '@actions/core'
+import { jest } from '@jest/globals'
+import { RunResults } from '../src/results.js'
+import { writeJobSummary } from '../src/summary.js'
+
+describe('summary.ts', () => {
+  // The summary file path is cached by '@actions/core' after the first write
+  let dir: string
+  let summaryPath: string
+
+  beforeAll(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'summary-'))
+    summaryPath = path.join(dir, 'summary.md')
+    process.env.GITHUB_STEP_SUMMARY = summaryPath
+  })
+
+  beforeEach(() => {
+    writeFileSync(summaryPath, '')
+    core.summary.emptyBuffer()
+  })
+
+  afterAll(() => {
+    delete process.env.GITHUB_STEP_SUMMARY
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('Writes the run overview and per-test table', async () => {
+    const results = new RunResults('run-1', 'https://app.desplega.ai/', [
+      'suite-1'
+    ])
+    results.recordSuiteEvent({
+      status: 'failed',
+      elapsed: 75.2,
+      start_time: '2025-05-21T21:45:33.096100+00:00',
+      end_time: '2025-05-21T21:46:48.296100+00:00',
+      test_suite_id: 'suite-1',
+      test_ids: ['t1', 't2', 't3']
+    })
+    results.recordTestEvent({
+      test_id: 't1',
+      test_name: 'Login works',
+      status: 'passed',
+      elapsed: 2.04
+    })
+    results.recordTestEvent({
+      test_id: 't2',
+      test_name: 'Checkout <cart>',
+      status: 'failed',
+      elapsed: 5,
+      failed_step: 'Click pay',
+      error: 'Element not found'
+    })
+
+    await writeJobSummary(results)
+
+    const markdown = readFileSync(summaryPath, 'utf8')
+
+    expect(markdown).toContain('<h2>desplega.ai test run</h2>')
+    expect(markdown).toContain(
+      'src="https://img.shields.io/badge/desplega.ai-failed-red" alt="Status: failed"'
+    )
+    expect(markdown).toContain(
+      '<td>run-1</td><td>suite-1</td><td>2025-05-21T21:45:33.096Z</td><td>2025-05-21T21:46:48.296Z</td><td>1m 15s</td>'
+    )
+    expect(markdown).toContain('<h3>Tests (1 passed, 1 failed, 0 flaky)</h3>')
+    expect(markdown).toContain(
+      '<td>Login works</td><td>✅ passed</td><td>2s</td><td>-</td>'
+    )
+    expect(markdown).toContain(
+      '<td>Checkout &lt;cart&gt;</td><td>❌ failed</td><td>5s</td><td>Click pay: Element not found</td>'
+    )
+    expect(markdown).toContain('<td>t3</td><td>⏳ pending</td><td>-</td>')
+    expect(markdown).toContain(
+      '<a href="https://app.desplega.ai/runs/run-1">View the run in desplega.ai</a>'
+    )
+  })
+
+  it('Writes partial results for an unfinished run', async () => {
+    const results = new RunResults('run-2')
+
+    await writeJobSummary(results)
+
+    const markdown = readFileSync(summaryPath, 'utf8')
+
+    expect(markdown).toContain('desplega.ai-unknown-lightgrey')
+    expect(markdown).toContain(
+      '<td>run-2</td><td>-</td><td>-</td><td>-</td><td>-</td>'
+    )
+    expect(markdown).not.toContain('<h3>Tests')
+    expect(markdown).not.toContain('<a href')
+  })
+
+  it('Writes the target with secrets redacted', async () => {
+    await writeJobSummary(new RunResults('run-5'), {
+      url: 'https://user:pw@pr-42.preview.example.com',
+      env: { API_TOKEN: 's3cr3t', LOCALE: 'de' }
+    })
+
+    const markdown = readFileSync(summaryPath, 'utf8')
+
+    expect(markdown).toContain(
+      '<td>https://***@pr-42.preview.example.com</td><td>API_TOKEN=***, LOCALE=***</td>'
+    )
+    expect(markdown).not.toContain('s3cr3t')
+    expect(markdown).not.toContain('pw@')
+  })
+
+  it('Escapes statuses for the badge URL', async () => {
+    const results = new RunResults('run-3')
+    results.recordSuiteEvent({ status: 'failed_pending' })
+
+    await writeJobSummary(results)
+
+    expect(readFileSync(summaryPath, 'utf8')).toContain(
+      'https://img.shields.io/badge/desplega.ai-failed__pending-lightgrey'
+    )
+  })
+
+  it('Does not throw when the summary cannot be written', async () => {
+    const write = jest
+      .spyOn(core.summary, 'write')
+      .mockRejectedValueOnce(new Error('Unable to access summary file'))
+
+    await expect(
+      writeJobSummary(new RunResults('run-4'))
+    ).resolves.toBeUndefined()
+
+    write.mockRestore()
+  })
+})
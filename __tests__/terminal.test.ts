@@ -0,0 +1,78 @@
+/**
+ * Unit tests for src/terminal.ts
+ */
+import { TerminalHost } from '../src/terminal.js'
+
+describe('terminal.ts', () => {
+  let stdout: string
+  let stderr: string
+
+  function createHost(
+    options: { color?: boolean; verbose?: boolean } = {}
+  ): TerminalHost {
+    return new TerminalHost(
+      { apiKey: ' key ', suiteIds: '' },
+      {
+        stdout: { write: (text: string) => (stdout += text) },
+        stderr: { write: (text: string) => (stderr += text) },
+        color: options.color ?? false,
+        verbose: options.verbose ?? false
+      }
+    )
+  }
+
+  beforeEach(() => {
+    stdout = ''
+    stderr = ''
+  })
+
+  it('Reads inputs', () => {
+    const host = createHost()
+
+    expect(host.getInput('apiKey', { required: true })).toBe('key')
+    expect(host.getInput('mode')).toBe('')
+    expect(() => host.getInput('suiteIds', { required: true })).toThrow(
+      'Input required and not supplied: suiteIds'
+    )
+  })
+
+  it('Keeps outputs and the most severe failure', () => {
+    const host = createHost()
+
+    host.setOutput('status', 'failed')
+    host.setOutput('passedCount', 3)
+    host.setFailed('Tests failed', 'failed')
+    host.setFailed('Timed out', 'timeout')
+    host.setFailed('Suite errored', 'error')
+
+    expect(Object.fromEntries(host.outputs)).toEqual({
+      status: 'failed',
+      passedCount: '3'
+    })
+    expect(host.failure).toBe('timeout')
+    expect(stderr).toBe('✖ Tests failed\n✖ Timed out\n✖ Suite errored\n')
+  })
+
+  it('Masks secrets', () => {
+    const host = createHost()
+
+    host.setSecret('hunter2')
+    host.info('Using password hunter2')
+    host.warning('hunter2 is weak', { title: 'Password' })
+
+    expect(stdout).toBe('Using password ***\n')
+    expect(stderr).toBe('⚠ Password\n*** is weak\n')
+  })
+
+  it('Colors statuses and hides debug logs unless verbose', () => {
+    const host = createHost({ color: true })
+
+    host.debug('Hidden')
+    host.info('Run passed')
+
+    expect(stdout).toBe('Run \u001b[32mpassed\u001b[0m\n')
+
+    createHost({ verbose: true }).debug('Shown')
+    expect(stdout).toContain('Shown\n')
+  })
+})
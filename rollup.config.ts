@@ -4,15 +4,21 @@ import commonjs from '@rollup/plugin-commonjs'
 import nodeResolve from '@rollup/plugin-node-resolve'
 import typescript from '@rollup/plugin-typescript'
 
-const config = {
-  input: 'src/index.ts',
+// The main step, the post step and the CLI are bundled separately
+const config = [
+  { input: 'src/index.ts', file: 'dist/index.js' },
+  { input: 'src/post.ts', file: 'dist/post.js' },
+  { input: 'src/bin.ts', file: 'dist/cli.js', banner: '#!/usr/bin/env node' }
+].map(({ input, file, banner }) => ({
+  input,
   output: {
+    banner,
     esModule: true,
-    file: 'dist/index.js',
+    file,
     format: 'es',
     sourcemap: true
   },
   plugins: [typescript(), nodeResolve({ preferBuiltins: true }), commonjs()]
-}
+}))
 
 export default config
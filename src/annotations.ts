@@ -0,0 +1,38 @@
+import * as host from './host.js'
+import { FAILED_STATUSES, RunResults, TestResult } from './results.js'
+
+/**
+ * Emit an annotation for a failed or flaky test, so it shows up in the checks
+ * UI. Other statuses are ignored.
+ * @param test The test result
+ * @param testUrl Link to the test in the desplega.ai dashboard, if known
+ */
+export function annotateTest(test: TestResult, testUrl?: string): void {
+  const flaky = test.status === 'flaky'
+  if (!flaky && !FAILED_STATUSES.includes(test.status)) return
+
+  const name = test.name ?? test.id
+  const message = [
+    test.failedStep && `Step: ${test.failedStep}`,
+    test.error ?? `Test ${test.status}`,
+    testUrl && `Details: ${testUrl}`
+  ]
+    .filter(Boolean)
+    .join('\n')
+
+  if (flaky) {
+    host.warning(message, { title: `Flaky test: ${name}` })
+  } else {
+    host.error(message, { title: `Failed test: ${name}` })
+  }
+}
+
+/**
+ * Emit the annotations of every failed or flaky test of a run
+ * @param results The results of the run, with its reruns merged
+ */
+export function annotateTests(results: RunResults): void {
+  for (const test of results.testResults) {
+    annotateTest(test, results.testUrl(test.id))
+  }
+}
@@ -0,0 +1,346 @@
+import { createWriteStream } from 'node:fs'
+import { mkdir, rm, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { Readable, Transform } from 'node:stream'
+import { pipeline } from 'node:stream/promises'
+import { ReadableStream as WebReadableStream } from 'node:stream/web'
+import { Artifact, DesplegaClient } from './desplega.js'
+import { errorReason } from './errors.js'
+import * as host from './host.js'
+import { FAILED_STATUSES, RunResults, TestResult } from './results.js'
+import { mapWithConcurrency } from './utils.js'
+
+/**
+ * Largest artifact that is downloaded, larger ones are skipped
+ */
+const MAX_ARTIFACT_BYTES = 100 * 1024 * 1024
+
+/**
+ * Total size of the downloaded artifacts, later ones are skipped once reached
+ */
+const MAX_TOTAL_BYTES = 500 * 1024 * 1024
+
+/**
+ * Number of tests whose artifacts are downloaded at the same time
+ */
+const DOWNLOAD_CONCURRENCY = 4
+
+/**
+ * How long a single listing or download may take
+ */
+const DOWNLOAD_TIMEOUT_MS = 120000
+
+/**
+ * Longest file or directory name written, before the extension
+ */
+const MAX_NAME_LENGTH = 80
+
+/**
+ * Names of devices on Windows, which cannot be used as file names whatever
+ * their extension
+ */
+const RESERVED_NAMES = /^(con|prn|aux|nul|com[0-9]|lpt[0-9])$/i
+
+/**
+ * A downloaded artifact, as listed in the manifest
+ */
+export interface ManifestArtifact {
+  testId: string
+  testName?: string
+  suiteId?: string
+  runId: string
+  id: string
+  name: string
+  type?: string
+  contentType?: string
+  size: number
+  /** Where the file was written, relative to the artifacts directory */
+  path: string
+}
+
+/**
+ * An artifact that was not downloaded, as listed in the manifest
+ */
+export interface SkippedArtifact {
+  testId: string
+  id?: string
+  name?: string
+  reason: string
+}
+
+/**
+ * The manifest written next to the downloaded artifacts
+ */
+export interface ArtifactsManifest {
+  runId: string
+  artifacts: ManifestArtifact[]
+  skipped: SkippedArtifact[]
+}
+
+/**
+ * Turn a name from the API into a file name that cannot escape the artifacts
+ * directory or clash with reserved names, like the device names of Windows
+ * @param name The name
+ * @param fallback Used when nothing is left of the name
+ * @returns The file name
+ */
+export function safeFileName(name: string, fallback = 'artifact'): string {
+  const extension = path.extname(name).replace(/[^A-Za-z0-9]/g, '')
+  const base = (extension ? name.slice(0, -path.extname(name).length) : name)
+    .replace(/[^A-Za-z0-9._-]+/g, '_')
+    .replace(/^[._]+|[._]+$/g, '')
+    .slice(0, MAX_NAME_LENGTH)
+
+  const safeBase = RESERVED_NAMES.test(base.split('.')[0])
+    ? `_${base}`
+    : base || fallback
+  return extension ? `${safeBase}.${extension.slice(0, 10)}` : safeBase
+}
+
+/**
+ * Pick a name that is not taken yet, by appending a counter
+ * @param name The preferred name
+ * @param taken Names already used, the picked name is added to it
+ * @returns The unique name
+ */
+function uniqueName(name: string, taken: Set<string>): string {
+  const extension = path.extname(name)
+  const base = name.slice(0, name.length - extension.length)
+
+  let unique = name
+  for (let i = 2; taken.has(unique.toLowerCase()); i++) {
+    unique = `${base}-${i}${extension}`
+  }
+
+  taken.add(unique.toLowerCase())
+  return unique
+}
+
+/**
+ * Counts the bytes passing through and fails once there are too many
+ */
+class SizeLimit extends Transform {
+  bytes = 0
+
+  private readonly limit: number
+
+  /**
+   * @param limit Maximum number of bytes
+   */
+  constructor(limit: number) {
+    super()
+    this.limit = limit
+  }
+
+  _transform(
+    chunk: Buffer,
+    _encoding: BufferEncoding,
+    callback: (error?: Error | null, data?: Buffer) => void
+  ): void {
+    this.bytes += chunk.length
+    if (this.bytes > this.limit) {
+      callback(new Error(`larger than ${formatBytes(this.limit)}`))
+    } else {
+      callback(null, chunk)
+    }
+  }
+}
+
+/**
+ * Format a byte count for messages
+ * @param bytes Number of bytes
+ * @returns The size in MB
+ */
+function formatBytes(bytes: number): string {
+  return `${Math.round((bytes / 1024 / 1024) * 10) / 10} MB`
+}
+
+/**
+ * Download the artifacts of the failed tests of a run into a directory, one
+ * subdirectory per test, and write a `manifest.json` listing them. Artifacts
+ * that are too large or fail to download are skipped with a warning, the
+ * download never fails the action.
+ * @param client The desplega.ai API client
+ * @param results The collected state of the run
+ * @param dir Where to write the artifacts, relative to the workspace
+ * @returns The manifest, or undefined if it could not be written
+ */
+export async function downloadArtifacts(
+  client: DesplegaClient,
+  results: RunResults,
+  dir: string
+): Promise<ArtifactsManifest | undefined> {
+  const artifactsDir = path.resolve(dir)
+  const failedTests = results.testResults.filter((test) =>
+    FAILED_STATUSES.includes(test.status)
+  )
+  const manifest: ArtifactsManifest = {
+    runId: results.runId,
+    artifacts: [],
+    skipped: []
+  }
+  const testDirs = new Set<string>()
+
+  // Bytes downloaded so far plus bytes reserved by downloads in progress, as
+  // the artifacts of several tests are downloaded at the same time
+  let reservedBytes = 0
+
+  const skip = (
+    test: TestResult,
+    reason: string,
+    artifact?: Artifact
+  ): void => {
+    host.warning(
+      `Skipping ${artifact ? `artifact ${artifact.name}` : 'the artifacts'} of test ${test.name ?? test.id}: ${reason}`
+    )
+    manifest.skipped.push({
+      testId: test.id,
+      id: artifact?.id,
+      name: artifact?.name,
+      reason
+    })
+  }
+
+  const downloadTest = async (test: TestResult): Promise<void> => {
+    const runId = test.runId ?? results.runId
+
+    let artifacts: Artifact[]
+    try {
+      artifacts = await client.listArtifacts(runId, test.id, {
+        timeoutMs: DOWNLOAD_TIMEOUT_MS
+      })
+    } catch (error) {
+      skip(test, errorReason(error))
+      return
+    }
+    if (artifacts.length === 0) return
+
+    const testDir = uniqueName(
+      safeFileName(test.name ?? test.id, 'test'),
+      testDirs
+    )
+    const fileNames = new Set<string>()
+
+    for (const artifact of artifacts) {
+      if (reservedBytes >= MAX_TOTAL_BYTES) {
+        skip(
+          test,
+          `the total size limit of ${formatBytes(MAX_TOTAL_BYTES)} was reached`,
+          artifact
+        )
+        continue
+      }
+
+      const remaining = Math.min(
+        MAX_ARTIFACT_BYTES,
+        MAX_TOTAL_BYTES - reservedBytes
+      )
+      if ((artifact.size ?? 0) > remaining) {
+        skip(test, `larger than ${formatBytes(remaining)}`, artifact)
+        continue
+      }
+
+      // An artifact of known size may not grow past it, others may take up
+      // to the remaining budget until they are downloaded
+      const reserved = artifact.size ?? remaining
+      reservedBytes += reserved
+
+      const relativePath = path.join(
+        testDir,
+        uniqueName(safeFileName(artifact.name), fileNames)
+      )
+      const filePath = path.join(artifactsDir, relativePath)
+
+      try {
+        const size = await downloadArtifact(
+          client,
+          runId,
+          artifact,
+          filePath,
+          reserved
+        )
+        reservedBytes += size - reserved
+
+        manifest.artifacts.push({
+          testId: test.id,
+          testName: test.name,
+          suiteId: test.suiteId,
+          runId,
+          id: artifact.id,
+          name: artifact.name,
+          type: artifact.type,
+          contentType: artifact.content_type,
+          size,
+          path: relativePath.split(path.sep).join('/')
+        })
+      } catch (error) {
+        reservedBytes -= reserved
+        skip(test, errorReason(error), artifact)
+      }
+    }
+  }
+
+  try {
+    await mapWithConcurrency(failedTests, DOWNLOAD_CONCURRENCY, downloadTest)
+
+    const manifestPath = path.join(artifactsDir, 'manifest.json')
+    await mkdir(artifactsDir, { recursive: true })
+    await writeFile(
+      manifestPath,
+      `${JSON.stringify(manifest, null, 2)}\n`,
+      'utf8'
+    )
+
+    host.info(
+      `Downloaded ${manifest.artifacts.length} artifacts (${formatBytes(reservedBytes)}) to ${artifactsDir}`
+    )
+    host.setOutput('artifactsManifest', manifestPath)
+
+    return manifest
+  } catch (error) {
+    host.warning(`Failed to download artifacts: ${errorReason(error)}`)
+    return undefined
+  }
+}
+
+/**
+ * Stream a single artifact to disk. Partially written files are removed.
+ * @param client The desplega.ai API client
+ * @param runId The run the artifact belongs to
+ * @param artifact The artifact
+ * @param filePath Where to write it
+ * @param limit Maximum number of bytes to write
+ * @returns Number of bytes written
+ */
+async function downloadArtifact(
+  client: DesplegaClient,
+  runId: string,
+  artifact: Artifact,
+  filePath: string,
+  limit: number
+): Promise<number> {
+  const { body, size } = await client.downloadArtifact(runId, artifact.id, {
+    timeoutMs: DOWNLOAD_TIMEOUT_MS
+  })
+
+  if (size !== undefined && size > limit) {
+    await body.cancel()
+    throw new Error(`larger than ${formatBytes(limit)}`)
+  }
+
+  const sizeLimit = new SizeLimit(limit)
+  await mkdir(path.dirname(filePath), { recursive: true })
+
+  try {
+    await pipeline(
+      Readable.fromWeb(body as WebReadableStream<Uint8Array>),
+      sizeLimit,
+      createWriteStream(filePath)
+    )
+  } catch (error) {
+    await rm(filePath, { force: true })
+    throw error
+  }
+
+  return sizeLimit.bytes
+}
@@ -0,0 +1,12 @@
+/**
+ * The entrypoint for the command line interface. This file simply runs the CLI
+ * with the arguments and streams of the process, and exits with its exit code.
+ */
+import { cli } from './cli.js'
+
+/* istanbul ignore next */
+process.exitCode = await cli(process.argv.slice(2), {
+  env: process.env,
+  stdout: process.stdout,
+  stderr: process.stderr
+})
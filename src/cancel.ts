@@ -0,0 +1,35 @@
+import { DesplegaClient } from './desplega.js'
+import { errorReason } from './errors.js'
+import * as host from './host.js'
+import * as log from './log.js'
+import { RunResults } from './results.js'
+
+/**
+ * How long to wait for the cancel request before giving up on it
+ */
+const CANCEL_TIMEOUT_MS = 5000
+
+/**
+ * Cancel a run that is no longer being waited for, so that it stops using
+ * quota. Failures are only reported as warnings.
+ * @param client The desplega.ai API client
+ * @param runId The ID of the run
+ * @param results Collects the state of the run
+ */
+export async function cancelRun(
+  client: DesplegaClient,
+  runId: string,
+  results: RunResults
+): Promise<void> {
+  log.info(`Cancelling run ${runId}...`)
+
+  try {
+    await client.cancel(runId, { timeoutMs: CANCEL_TIMEOUT_MS })
+
+    results.recordSuiteEvent({ status: 'cancelled' })
+    host.setOutput('status', 'cancelled')
+    log.info(`Cancelled run ${runId}`)
+  } catch (error) {
+    log.warning(`Failed to cancel run ${runId}: ${errorReason(error)}`)
+  }
+}
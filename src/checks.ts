@@ -0,0 +1,253 @@
+import * as core from '@actions/core'
+import { getHeadSha, getRepository } from './context.js'
+import { errorReason } from './errors.js'
+import { CheckRunFields, GitHubClient, Repository } from './github.js'
+import {
+  FAILED_STATUSES,
+  PENDING_STATUSES,
+  RunResults,
+  SuiteRunEvent,
+  statusIcon
+} from './results.js'
+import { formatDuration } from './utils.js'
+
+/**
+ * Maximum length GitHub accepts for the summary of a check run
+ */
+const MAX_SUMMARY_LENGTH = 65535
+
+/**
+ * Map the final status of a suite to the conclusion of its check run
+ * @param status The last status reported for the suite
+ * @returns The check run conclusion
+ */
+function conclusionFor(
+  status: string | undefined
+): NonNullable<CheckRunFields['conclusion']> {
+  if (status === 'passed' || status === 'flaky') return 'success'
+  if (status === 'cancelled') return 'cancelled'
+  // The run ended (e.g. timed out) before the suite completed
+  if (!status || PENDING_STATUSES.includes(status)) return 'timed_out'
+  return 'failure'
+}
+
+/**
+ * The current time, as expected by the Checks API
+ * @returns An ISO 8601 timestamp
+ */
+function now(): string {
+  return new Date().toISOString()
+}
+
+/**
+ * Publishes one GitHub check run per suite of a run. Check runs are created as
+ * soon as a suite is known, move to `in_progress` while the suite is pending or
+ * running, and are completed by `complete()`. API calls are made in order in
+ * the background, failures are only reported as warnings.
+ */
+export class SuiteCheckRuns {
+  private readonly client: GitHubClient
+  private readonly repository: Repository
+  private readonly headSha: string
+  private readonly results: RunResults
+
+  /** Check run IDs by suite ID, undefined when creating the check run failed */
+  private readonly checkRuns = new Map<string, number | undefined>()
+
+  /** The last status reported for each suite */
+  private readonly suiteStatuses = new Map<string, string>()
+
+  /** The last check run status sent for each suite */
+  private readonly sentStatuses = new Map<string, string>()
+
+  private queue: Promise<void> = Promise.resolve()
+
+  /**
+   * @param client The GitHub client
+   * @param repository The repository to publish the check runs to
+   * @param headSha The commit the check runs belong to
+   * @param results Collects the state of the run, suite events are followed
+   */
+  constructor(
+    client: GitHubClient,
+    repository: Repository,
+    headSha: string,
+    results: RunResults
+  ) {
+    this.client = client
+    this.repository = repository
+    this.headSha = headSha
+    this.results = results
+
+    for (const suiteId of results.suiteIds) this.track(suiteId, 'queued')
+    results.onSuiteEvent((event) => this.handleSuiteEvent(event))
+  }
+
+  /**
+   * Follow a suite-level event. Events without a suite ID apply to all suites.
+   * @param event The event payload
+   */
+  private handleSuiteEvent(event: SuiteRunEvent): void {
+    const suiteIds = event.test_suite_id
+      ? [event.test_suite_id]
+      : Array.from(this.results.suiteIds)
+
+    for (const suiteId of suiteIds) {
+      if (event.status) this.suiteStatuses.set(suiteId, event.status)
+
+      if (event.status && PENDING_STATUSES.includes(event.status)) {
+        this.track(suiteId, 'in_progress')
+      } else {
+        this.track(suiteId, 'queued')
+      }
+    }
+  }
+
+  /**
+   * Create the check run of a suite if needed, or move it to a new status
+   * @param suiteId The ID of the suite
+   * @param status The check run status
+   */
+  private track(suiteId: string, status: 'queued' | 'in_progress'): void {
+    if (!this.checkRuns.has(suiteId)) {
+      this.checkRuns.set(suiteId, undefined)
+      this.sentStatuses.set(suiteId, status)
+
+      this.enqueue(`create the check run for suite ${suiteId}`, async () => {
+        const checkRun = await this.client.createCheckRun(this.repository, {
+          name: `desplega.ai / ${suiteId}`,
+          head_sha: this.headSha,
+          status,
+          details_url: this.results.runUrl,
+          external_id: this.results.runId,
+          started_at: status === 'in_progress' ? now() : undefined
+        })
+        this.checkRuns.set(suiteId, checkRun.id)
+      })
+    } else if (
+      status === 'in_progress' &&
+      this.sentStatuses.get(suiteId) !== status
+    ) {
+      this.sentStatuses.set(suiteId, status)
+
+      this.enqueue(`update the check run for suite ${suiteId}`, async () => {
+        const checkRunId = this.checkRuns.get(suiteId)
+        if (checkRunId === undefined) return
+
+        await this.client.updateCheckRun(this.repository, checkRunId, {
+          status,
+          started_at: now()
+        })
+      })
+    }
+  }
+
+  /**
+   * Run an API call after all previously queued ones
+   * @param action What the call does, for the warning if it fails
+   * @param task The API call
+   */
+  private enqueue(action: string, task: () => Promise<void>): void {
+    this.queue = this.queue.then(task).catch((error: unknown) => {
+      core.warning(`Failed to ${action}: ${errorReason(error)}`)
+    })
+  }
+
+  /**
+   * Build the output of the check run of a suite
+   * @param suiteId The ID of the suite
+   * @returns The title and Markdown summary
+   */
+  private buildOutput(suiteId: string): { title: string; summary: string } {
+    const tests = this.results.testResults.filter(
+      (test) => test.suiteId === suiteId
+    )
+    const countOf = (statuses: string[]): number =>
+      tests.filter((test) => statuses.includes(test.status)).length
+
+    const title = `${countOf(['passed'])} passed, ${countOf(FAILED_STATUSES)} failed, ${countOf(['flaky'])} flaky`
+    const status = this.suiteStatuses.get(suiteId) ?? 'unknown'
+
+    const lines = [
+      `Suite \`${suiteId}\` of run \`${this.results.runId}\`: ${statusIcon(status)} ${status}`.trim()
+    ]
+
+    if (tests.length > 0) {
+      lines.push(
+        '',
+        '| Test | Status | Duration | Error |',
+        '| ---- | ------ | -------- | ----- |',
+        ...tests.map((test) => {
+          const cells = [
+            test.name ?? test.id,
+            `${statusIcon(test.status)} ${test.status}`.trim(),
+            test.elapsed !== undefined ? formatDuration(test.elapsed) : '-',
+            [test.failedStep, test.error].filter(Boolean).join(': ') || '-'
+          ]
+          return `| ${cells.map((cell) => cell.replace(/\s+/g, ' ').replace(/\|/g, '\\|')).join(' | ')} |`
+        })
+      )
+    }
+
+    if (this.results.runUrl) {
+      lines.push('', `[View the run in desplega.ai](${this.results.runUrl})`)
+    }
+
+    let summary = lines.join('\n')
+    if (summary.length > MAX_SUMMARY_LENGTH) {
+      summary = `${summary.slice(0, MAX_SUMMARY_LENGTH - 3)}...`
+    }
+
+    return { title, summary }
+  }
+
+  /**
+   * Complete all check runs with the conclusion of their suite, once the run
+   * ended or waiting for it failed
+   */
+  async complete(): Promise<void> {
+    for (const suiteId of this.checkRuns.keys()) {
+      this.enqueue(`complete the check run for suite ${suiteId}`, async () => {
+        const checkRunId = this.checkRuns.get(suiteId)
+        if (checkRunId === undefined) return
+
+        await this.client.updateCheckRun(this.repository, checkRunId, {
+          status: 'completed',
+          conclusion: conclusionFor(this.suiteStatuses.get(suiteId)),
+          completed_at: now(),
+          output: this.buildOutput(suiteId)
+        })
+      })
+    }
+
+    await this.queue
+  }
+}
+
+/**
+ * Start publishing a check run per suite of the run
+ * @param results Collects the state of the run
+ * @param token Token used to authenticate against the GitHub API
+ * @returns The check runs, or undefined outside of GitHub Actions
+ */
+export function startCheckRuns(
+  results: RunResults,
+  token: string
+): SuiteCheckRuns | undefined {
+  const repository = getRepository()
+  const headSha = getHeadSha()
+
+  if (!repository || !headSha) {
+    core.warning(
+      'Unable to determine the repository or commit, skipping check runs'
+    )
+    return undefined
+  }
+
+  return new SuiteCheckRuns(
+    new GitHubClient(token),
+    repository,
+    headSha,
+    results
+  )
+}
@@ -0,0 +1,113 @@
+import * as core from '@actions/core'
+import { cancelRun } from './cancel.js'
+import { DesplegaClient } from './desplega.js'
+import { errorReason } from './errors.js'
+import { writeJUnitReport } from './junit.js'
+import { writeResultsFile } from './report.js'
+import { PENDING_STATUSES, RunResults } from './results.js'
+import { writeJobSummary } from './summary.js'
+import { formatDuration, parseBoolean, parseStringArray } from './utils.js'
+
+/**
+ * How long to wait for the status request before giving up on it
+ */
+const STATUS_TIMEOUT_MS = 5000
+
+/**
+ * Fetch the current state of a run, and cancel it if it is still active
+ * @param client The desplega.ai API client
+ * @param runId The ID of the run
+ * @param dashboardUrl Base URL of the desplega.ai dashboard, if any
+ * @param startTime When the main step started the run, if known
+ * @returns The state of the run
+ */
+async function cleanUpRun(
+  client: DesplegaClient,
+  runId: string,
+  dashboardUrl: string,
+  startTime: string
+): Promise<RunResults> {
+  const results = new RunResults(runId, dashboardUrl)
+  if (startTime) results.startTime = startTime
+
+  let active = true
+  try {
+    const data = await client.status(runId, { timeoutMs: STATUS_TIMEOUT_MS })
+    results.recordSuiteEvent(data)
+    for (const test of data.tests ?? []) results.recordTestEvent(test)
+
+    active = PENDING_STATUSES.includes(data.status)
+    core.info(`Run ${runId} status: ${data.status}`)
+  } catch (error) {
+    // Cancel anyway, the API rejects cancelling runs that already ended
+    core.warning(
+      `Failed to fetch the status of run ${runId}: ${errorReason(error)}`
+    )
+  }
+
+  if (active) {
+    if (startTime) {
+      const seconds = (Date.now() - Date.parse(startTime)) / 1000
+      core.info(`Run ${runId} is still active after ${formatDuration(seconds)}`)
+    }
+
+    await cancelRun(client, runId, results)
+  }
+
+  return results
+}
+
+/**
+ * The post step of the action. It runs after the main step, even when that
+ * step failed or was cancelled. When the main step did not finish (e.g. it was
+ * killed on a hard cancel), the runs it followed are cancelled if they are
+ * still active, and the job summary, JUnit report and results file are
+ * written from their current state.
+ */
+export async function cleanup(): Promise<void> {
+  try {
+    // Parallel runs are saved as a comma-separated list
+    const runIds = parseStringArray(core.getState('runId')) ?? []
+    const originUrl = core.getState('originUrl')
+    const startTime = core.getState('startTime')
+
+    if (runIds.length === 0) {
+      core.debug('No run was started, nothing to clean up')
+      return
+    }
+
+    if (core.getState('finished') === 'true') {
+      core.debug('The main step finished, nothing to clean up')
+      return
+    }
+
+    core.info(
+      `The main step did not finish, cleaning up run ${runIds.join(', ')}`
+    )
+
+    const client = new DesplegaClient(
+      originUrl,
+      core.getInput('apiKey', { required: true })
+    )
+    const dashboardUrl = core.getInput('dashboardUrl')
+
+    const runs = await Promise.all(
+      runIds.map((runId) => cleanUpRun(client, runId, dashboardUrl, startTime))
+    )
+    const results =
+      runs.length === 1 ? runs[0] : RunResults.combine(runs, dashboardUrl)
+
+    if (parseBoolean(core.getInput('jobSummary') || 'true')) {
+      await writeJobSummary(results)
+    }
+
+    const junitPath = core.getInput('junitPath')
+    if (junitPath) await writeJUnitReport(results, junitPath)
+
+    const resultsPath = core.getInput('resultsPath')
+    if (resultsPath) await writeResultsFile(results, resultsPath)
+  } catch (error) {
+    // The post step only cleans up, it never fails the job on its own
+    core.warning(`Cleanup failed: ${errorReason(error)}`)
+  }
+}
@@ -0,0 +1,400 @@
+import { parseArgs, ParseArgsConfig } from 'node:util'
+import { FailureKind, useHost } from './host.js'
+import { run } from './main.js'
+import { statusIcon } from './results.js'
+import { Output, TerminalHost } from './terminal.js'
+import { formatDuration } from './utils.js'
+
+/**
+ * Prefix of the environment variables that set inputs, e.g. `DESPLEGA_API_KEY`
+ */
+const ENV_PREFIX = 'DESPLEGA_'
+
+/**
+ * Exit code of a run that passed, or was only triggered
+ */
+export const EXIT_OK = 0
+
+/**
+ * Exit codes of failed runs, by kind of failure
+ */
+export const EXIT_CODES: Record<FailureKind, number> = {
+  failed: 1,
+  error: 2,
+  timeout: 3,
+  cancelled: 130
+}
+
+/**
+ * Inputs that are set differently than on GitHub Actions. Job summaries,
+ * pull request comments and check runs only exist there.
+ */
+const CLI_INPUTS: Record<string, string> = {
+  jobSummary: 'false',
+  githubToken: '',
+  checkRuns: 'false'
+}
+
+/**
+ * A command line option that sets an action input
+ */
+interface CliOption {
+  /** The name of the input */
+  input: string
+  description: string
+  /** Placeholder of the value, boolean flags have none */
+  value?: string
+  /** The value of the input when the boolean flag is given */
+  set?: string
+  /** Whether the option can be repeated, the values are joined by lines */
+  multiple?: boolean
+  /** The value of the input when neither the option nor its variable is set */
+  default?: string
+}
+
+/**
+ * The options of the CLI, in the order they are listed in the help
+ */
+const OPTIONS: CliOption[] = [
+  { input: 'apiKey', value: 'key', description: 'API key (required)' },
+  {
+    input: 'originUrl',
+    value: 'url',
+    description: 'Base URL of the desplega.ai API',
+    default: 'https://api.desplega.ai'
+  },
+  {
+    input: 'suiteIds',
+    value: 'ids',
+    description: 'Comma-separated IDs of the suites to run'
+  },
+  {
+    input: 'suiteNames',
+    value: 'names',
+    description: 'Comma-separated names of the suites to run'
+  },
+  {
+    input: 'suiteTags',
+    value: 'tags',
+    description: 'Run the suites with any of these comma-separated tags'
+  },
+  {
+    input: 'targetUrl',
+    value: 'url',
+    description: 'URL the tests run against'
+  },
+  {
+    input: 'env',
+    value: 'KEY=VALUE',
+    multiple: true,
+    description: 'Environment variable for the run, can be repeated'
+  },
+  {
+    input: 'sendMetadata',
+    set: 'false',
+    description: 'Do not send Git and CI metadata with the run'
+  },
+  { input: 'failFast', set: 'true', description: 'Stop at the first failure' },
+  {
+    input: 'parallel',
+    set: 'true',
+    description: 'Trigger one run per suite'
+  },
+  {
+    input: 'maxConcurrency',
+    value: 'n',
+    description: 'Maximum number of parallel runs (default: 5)'
+  },
+  {
+    input: 'block',
+    set: 'false',
+    description: 'Only trigger the run, do not wait for it'
+  },
+  {
+    input: 'mode',
+    value: 'run|wait',
+    description: 'What to do (default: run)'
+  },
+  { input: 'runId', value: 'id', description: 'Run to wait for in wait mode' },
+  {
+    input: 'maxRetries',
+    value: 'n',
+    description: 'Retries of the trigger call (default: 0)'
+  },
+  {
+    input: 'retryBaseDelay',
+    value: 'seconds',
+    description: 'Delay ceiling of the first retry (default: 1)'
+  },
+  {
+    input: 'retryMaxDelay',
+    value: 'seconds',
+    description: 'Delay ceiling of any retry (default: 30)'
+  },
+  {
+    input: 'retryMaxTime',
+    value: 'seconds',
+    description: 'Total time to spend retrying (default: 120)'
+  },
+  {
+    input: 'rerunFailed',
+    value: 'n',
+    description: 'Times to rerun failed tests (default: 0)'
+  },
+  {
+    input: 'timeout',
+    value: 'seconds',
+    description: 'How long to wait for the run (default: 600)'
+  },
+  {
+    input: 'transport',
+    value: 'sse|poll|auto',
+    description: 'How to follow the run (default: sse)'
+  },
+  {
+    input: 'pollInterval',
+    value: 'seconds',
+    description: 'Delay between status requests (default: 5)'
+  },
+  {
+    input: 'junitPath',
+    value: 'file',
+    description: 'Write a JUnit XML report'
+  },
+  {
+    input: 'resultsPath',
+    value: 'file',
+    description: 'Write the results as JSON'
+  },
+  {
+    input: 'artifactsDir',
+    value: 'dir',
+    description: 'Download the artifacts of failed tests'
+  },
+  {
+    input: 'dashboardUrl',
+    value: 'url',
+    description: 'Base URL of the dashboard',
+    default: 'https://app.desplega.ai'
+  }
+]
+
+/**
+ * Get the flag of an option, e.g. `--suite-ids` or `--no-block`
+ * @param option The option
+ * @returns The flag, without the dashes
+ */
+function flagOf(option: CliOption): string {
+  const name = option.input.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`)
+  return option.set === 'false' ? `no-${name}` : name
+}
+
+/**
+ * Get the environment variable of an option, e.g. `DESPLEGA_SUITE_IDS`
+ * @param option The option
+ * @returns The name of the variable
+ */
+function envOf(option: CliOption): string {
+  return `${ENV_PREFIX}${option.input.replace(/[A-Z]/g, (c) => `_${c}`).toUpperCase()}`
+}
+
+/**
+ * Parsed command line
+ */
+export interface CliArgs {
+  /** The values of the inputs, by input name */
+  inputs: Record<string, string>
+  verbose: boolean
+  /** Whether colors were turned off */
+  noColor: boolean
+  help: boolean
+}
+
+/**
+ * Parse the command line. Options take precedence over environment
+ * variables, which take precedence over defaults.
+ * @param argv The arguments, without the node and script paths
+ * @param env The environment variables
+ * @returns The parsed command line
+ */
+export function parseCliArgs(
+  argv: string[],
+  env: Record<string, string | undefined>
+): CliArgs {
+  const options: ParseArgsConfig['options'] = {
+    verbose: { type: 'boolean', short: 'v' },
+    'no-color': { type: 'boolean' },
+    help: { type: 'boolean', short: 'h' }
+  }
+  for (const option of OPTIONS) {
+    options[flagOf(option)] = option.value
+      ? { type: 'string', multiple: option.multiple ?? false }
+      : { type: 'boolean' }
+  }
+
+  const { values } = parseArgs({
+    args: argv,
+    options,
+    strict: true,
+    allowPositionals: false
+  })
+
+  const inputs: Record<string, string> = {}
+  for (const option of OPTIONS) {
+    const value = values[flagOf(option)]
+    const fromFlag = Array.isArray(value)
+      ? value.join('\n')
+      : typeof value === 'string'
+        ? value
+        : value
+          ? option.set
+          : undefined
+
+    inputs[option.input] =
+      fromFlag ?? env[envOf(option)] ?? option.default ?? ''
+  }
+
+  return {
+    inputs: { ...inputs, ...CLI_INPUTS },
+    verbose: values.verbose === true,
+    noColor: values['no-color'] === true,
+    help: values.help === true
+  }
+}
+
+/**
+ * Build the help text
+ * @returns The help text
+ */
+export function usage(): string {
+  const rows = OPTIONS.map((option) => [
+    `--${flagOf(option)}${option.value ? ` <${option.value}>` : ''}`,
+    option.description
+  ])
+  rows.push(
+    ['-v, --verbose', 'Show debug logs'],
+    ['--no-color', 'Do not use colors'],
+    ['-h, --help', 'Show this help']
+  )
+  const width = Math.max(...rows.map(([flag]) => flag.length)) + 2
+
+  return [
+    'Usage: desplega [options]',
+    '',
+    'Trigger desplega.ai test suites and wait for their results.',
+    '',
+    'Options:',
+    ...rows.map(
+      ([flag, description]) => `  ${flag.padEnd(width)}${description}`
+    ),
+    '',
+    `Every option can also be set with an environment variable, e.g. --api-key
+with ${ENV_PREFIX}API_KEY and --no-block with ${ENV_PREFIX}BLOCK=false.`,
+    '',
+    'Exit codes:',
+    `  ${EXIT_OK}    The run passed, or was triggered without waiting`,
+    `  ${EXIT_CODES.failed}    Tests failed`,
+    `  ${EXIT_CODES.error}    The run errored, or the options are invalid`,
+    `  ${EXIT_CODES.timeout}    The run did not end within the timeout`,
+    `  ${EXIT_CODES.cancelled}  Waiting for the run was interrupted`,
+    ''
+  ].join('\n')
+}
+
+/**
+ * Streams and environment the CLI runs with
+ */
+export interface CliContext {
+  env: Record<string, string | undefined>
+  stdout: Output & { isTTY?: boolean }
+  stderr: Output
+}
+
+/**
+ * Run the action from the command line
+ * @param argv The arguments, without the node and script paths
+ * @param context The environment and output streams
+ * @returns The exit code
+ */
+export async function cli(
+  argv: string[],
+  context: CliContext
+): Promise<number> {
+  let args: CliArgs
+  try {
+    args = parseCliArgs(argv, context.env)
+  } catch (error) {
+    context.stderr.write(
+      `${error instanceof Error ? error.message : 'Invalid arguments'}\n\n${usage()}`
+    )
+    return EXIT_CODES.error
+  }
+
+  if (args.help) {
+    context.stdout.write(usage())
+    return EXIT_OK
+  }
+
+  const terminal = new TerminalHost(args.inputs, {
+    stdout: context.stdout,
+    stderr: context.stderr,
+    color:
+      !args.noColor &&
+      context.env.NO_COLOR === undefined &&
+      (context.env.FORCE_COLOR !== undefined || context.stdout.isTTY === true),
+    verbose: args.verbose
+  })
+
+  if (!args.inputs.apiKey) {
+    terminal.setFailed(
+      `Missing API key, set --api-key or ${ENV_PREFIX}API_KEY`,
+      'error'
+    )
+    return EXIT_CODES.error
+  }
+  terminal.setSecret(args.inputs.apiKey)
+
+  useHost(terminal)
+  await run()
+
+  const status = terminal.outputs.get('status')
+  if (status) {
+    context.stdout.write(`\n${summarize(terminal, status)}\n`)
+  }
+
+  return terminal.failure ? EXIT_CODES[terminal.failure] : EXIT_OK
+}
+
+/**
+ * Summarize the outcome of a run in a line or two
+ * @param terminal The host the action ran on
+ * @param status The final status of the run
+ * @returns The summary
+ */
+function summarize(terminal: TerminalHost, status: string): string {
+  const outputs = terminal.outputs
+  const color = terminal.failure
+    ? 'red'
+    : status === 'flaky'
+      ? 'yellow'
+      : 'green'
+  const duration = Number(outputs.get('durationSeconds'))
+
+  const counts = outputs.has('passedCount')
+    ? `: ${outputs.get('passedCount')} passed, ${outputs.get('failedCount')} failed, ${outputs.get('flakyCount')} flaky`
+    : ''
+  const time = Number.isFinite(duration)
+    ? ` in ${formatDuration(duration)}`
+    : ''
+
+  const lines = [
+    terminal.paint(
+      color,
+      `${statusIcon(status) || '•'} Run ${outputs.get('runId') ?? ''} ${status}${counts}${time}`
+    )
+  ]
+  const reportUrl = outputs.get('reportUrl')
+  if (reportUrl) lines.push(`  ${reportUrl}`)
+
+  return lines.join('\n')
+}
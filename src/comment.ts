@@ -0,0 +1,183 @@
+import * as core from '@actions/core'
+import { getHeadSha, getPullRequestNumber, getRepository } from './context.js'
+import { errorReason } from './errors.js'
+import { GitHubClient, IssueComment, Repository } from './github.js'
+import { FAILED_STATUSES, RunResults, statusIcon } from './results.js'
+
+/**
+ * Start of the hidden marker used to find the comment again on later runs
+ */
+const COMMENT_MARKER_PREFIX = '<!-- desplega.ai-action'
+
+/**
+ * Maximum number of failing tests listed in the comment
+ */
+const MAX_LISTED_FAILURES = 20
+
+/**
+ * Collapse a message to a single line of reasonable length
+ * @param text The text to shorten
+ * @returns The shortened text
+ */
+function oneLine(text: string): string {
+  const line = text.replace(/\s+/g, ' ').trim()
+  return line.length > 300 ? `${line.slice(0, 297)}...` : line
+}
+
+/**
+ * Build the hidden marker of the comment. Every workflow, job and key gets a
+ * comment of its own, so jobs on the same pull request do not overwrite each
+ * other's results.
+ * @param key Tells apart jobs that share a job ID, e.g. matrix jobs
+ * @returns The marker
+ */
+function commentMarker(key = ''): string {
+  const { GITHUB_WORKFLOW = '', GITHUB_JOB = '' } = process.env
+  const id = [GITHUB_WORKFLOW, GITHUB_JOB, ...(key ? [key] : [])]
+    .join('/')
+    // Keep the marker a single well-formed HTML comment
+    .replace(/\s+/g, ' ')
+    .replace(/-{2,}/g, '-')
+  return `${COMMENT_MARKER_PREFIX} ${id} -->`
+}
+
+/**
+ * Build the Markdown body of the pull request comment
+ * @param results The collected state of the run
+ * @param marker The hidden marker, see {@link commentMarker}
+ * @returns The comment body, including the marker
+ */
+export function buildCommentBody(
+  results: RunResults,
+  marker = commentMarker()
+): string {
+  const status = results.status ?? 'unknown'
+  const failing = results.testResults.filter((test) =>
+    FAILED_STATUSES.includes(test.status)
+  )
+
+  const lines = [
+    marker,
+    `### ${statusIcon(status) || 'ℹ️'} desplega.ai run ${status}`,
+    '',
+    '| Passed | Failed | Flaky | Total |',
+    '| ------ | ------ | ----- | ----- |',
+    `| ${results.count('passed')} | ${failing.length} | ${results.count('flaky')} | ${results.testResults.length} |`
+  ]
+
+  if (failing.length > 0) {
+    lines.push('', '**Failing tests**', '')
+
+    for (const test of failing.slice(0, MAX_LISTED_FAILURES)) {
+      const reason = [test.failedStep, test.error].filter(Boolean).join(': ')
+      const url = results.testUrl(test.id)
+
+      lines.push(
+        `- **${oneLine(test.name ?? test.id)}**` +
+          (reason ? ` — ${oneLine(reason)}` : '') +
+          (url ? ` ([details](${url}))` : '')
+      )
+    }
+
+    if (failing.length > MAX_LISTED_FAILURES) {
+      lines.push(`- ...and ${failing.length - MAX_LISTED_FAILURES} more`)
+    }
+  }
+
+  const footer = [`Run \`${results.runId}\``]
+  if (results.runUrl) {
+    footer.unshift(`[View the run in desplega.ai](${results.runUrl})`)
+  }
+  // The pushed commit, not the merge commit of a pull request
+  const sha = getHeadSha()
+  if (sha) footer.push(`commit ${sha.slice(0, 7)}`)
+
+  lines.push('', footer.join(' · '), '')
+
+  return lines.join('\n')
+}
+
+/**
+ * Tell whether a comment was written with the same token, so that it can be
+ * updated. GitHub App tokens, including `GITHUB_TOKEN`, cannot look up their
+ * own user, any bot comment is taken to be theirs.
+ * @param client The GitHub client
+ * @returns Whether a comment was written with the token
+ */
+async function ownedByToken(
+  client: GitHubClient
+): Promise<(comment: IssueComment) => boolean> {
+  try {
+    const { login } = await client.getAuthenticatedUser()
+    return (comment) => comment.user?.login === login
+  } catch {
+    return (comment) => comment.user?.type === 'Bot'
+  }
+}
+
+/**
+ * Create the results comment, or update it in place when it already exists.
+ * Comments of other users that quote the marker are left alone.
+ * @param client The GitHub client
+ * @param repository The repository
+ * @param issueNumber The pull request number
+ * @param body The comment body
+ * @param marker The hidden marker that identifies the comment
+ * @returns The URL of the comment
+ */
+export async function upsertComment(
+  client: GitHubClient,
+  repository: Repository,
+  issueNumber: number,
+  body: string,
+  marker: string
+): Promise<string | undefined> {
+  const comments = await client.listIssueComments(repository, issueNumber)
+  const owned = await ownedByToken(client)
+  const existing = comments.find(
+    (comment) => owned(comment) && comment.body?.includes(marker)
+  )
+
+  const comment = existing
+    ? await client.updateIssueComment(repository, existing.id, body)
+    : await client.createIssueComment(repository, issueNumber, body)
+
+  return comment.html_url
+}
+
+/**
+ * Post the run results as a sticky comment on the pull request that triggered
+ * the workflow. Does nothing for other events. Failures are only reported as
+ * warnings.
+ * @param results The collected state of the run
+ * @param token Token used to authenticate against the GitHub API
+ * @param key Tells apart jobs that share a job ID, e.g. matrix jobs
+ */
+export async function postPullRequestComment(
+  results: RunResults,
+  token: string,
+  key = ''
+): Promise<void> {
+  const issueNumber = getPullRequestNumber()
+  const repository = getRepository()
+
+  if (!issueNumber || !repository) {
+    core.debug('Not a pull request, skipping the results comment')
+    return
+  }
+
+  try {
+    const marker = commentMarker(key)
+    const url = await upsertComment(
+      new GitHubClient(token),
+      repository,
+      issueNumber,
+      buildCommentBody(results, marker),
+      marker
+    )
+
+    core.info(`Results comment posted: ${url ?? `#${issueNumber}`}`)
+  } catch (error) {
+    core.warning(`Failed to post the results comment: ${errorReason(error)}`)
+  }
+}
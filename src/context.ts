@@ -0,0 +1,177 @@
+import { createHash, randomUUID } from 'node:crypto'
+import { readFileSync } from 'node:fs'
+import { Repository } from './github.js'
+
+/**
+ * Read the payload of the event that triggered the workflow
+ * @returns The event payload, or undefined outside of GitHub Actions
+ */
+export function readEventPayload(): Record<string, unknown> | undefined {
+  const eventPath = process.env.GITHUB_EVENT_PATH
+  if (!eventPath) return undefined
+
+  try {
+    return JSON.parse(readFileSync(eventPath, 'utf8')) as Record<
+      string,
+      unknown
+    >
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Get the repository the workflow runs in
+ * @returns The repository, or undefined outside of GitHub Actions
+ */
+export function getRepository(): Repository | undefined {
+  const [owner, repo] = (process.env.GITHUB_REPOSITORY ?? '').split('/')
+  return owner && repo ? { owner, repo } : undefined
+}
+
+/**
+ * Get the number of the pull request that triggered the workflow
+ * @returns The pull request number, or undefined for other events
+ */
+export function getPullRequestNumber(): number | undefined {
+  const eventName = process.env.GITHUB_EVENT_NAME
+  if (eventName !== 'pull_request' && eventName !== 'pull_request_target') {
+    return undefined
+  }
+
+  const pullRequest = readEventPayload()?.pull_request as
+    | { number?: number }
+    | undefined
+
+  return pullRequest?.number
+}
+
+/**
+ * Get the commit the workflow runs for. For pull requests this is the head of
+ * the pull request branch rather than the merge commit in `GITHUB_SHA`.
+ * @returns The commit SHA, or undefined outside of GitHub Actions
+ */
+export function getHeadSha(): string | undefined {
+  const pullRequest = readEventPayload()?.pull_request as
+    | { head?: { sha?: string } }
+    | undefined
+
+  return pullRequest?.head?.sha || process.env.GITHUB_SHA || undefined
+}
+
+/**
+ * The state of a deployment, from a `deployment_status` event
+ */
+export interface DeploymentStatus {
+  state: string
+  environment?: string
+  environmentUrl?: string
+}
+
+/**
+ * Get the deployment status that triggered the workflow, e.g. a preview
+ * deployment by Vercel, Netlify or Render
+ * @returns The deployment status, or undefined for other events
+ */
+export function getDeploymentStatus(): DeploymentStatus | undefined {
+  if (process.env.GITHUB_EVENT_NAME !== 'deployment_status') return undefined
+
+  const deploymentStatus = readEventPayload()?.deployment_status as
+    | { state?: string; environment?: string; environment_url?: string }
+    | undefined
+
+  if (!deploymentStatus) return undefined
+
+  return {
+    state: deploymentStatus.state ?? 'unknown',
+    environment: deploymentStatus.environment || undefined,
+    environmentUrl: deploymentStatus.environment_url || undefined
+  }
+}
+
+/**
+ * Where a run was triggered from, sent with the trigger request so that runs
+ * can be traced back to the commit and workflow run
+ */
+export interface RunMetadata {
+  commit_sha?: string
+  ref?: string
+  branch?: string
+  pull_request?: number
+  repository?: string
+  actor?: string
+  workflow?: string
+  workflow_run_id?: string
+  workflow_run_attempt?: number
+  workflow_run_url?: string
+}
+
+/**
+ * Get the link to the workflow run
+ * @returns The link, or undefined outside of GitHub Actions
+ */
+export function getWorkflowRunUrl(): string | undefined {
+  const { GITHUB_SERVER_URL, GITHUB_REPOSITORY, GITHUB_RUN_ID } = process.env
+  if (!GITHUB_REPOSITORY || !GITHUB_RUN_ID) return undefined
+
+  return `${GITHUB_SERVER_URL || 'https://github.com'}/${GITHUB_REPOSITORY}/actions/runs/${GITHUB_RUN_ID}`
+}
+
+/**
+ * Collect the Git and workflow metadata of the workflow run
+ * @returns The metadata, or undefined outside of GitHub Actions
+ */
+export function getRunMetadata(): RunMetadata | undefined {
+  const env = process.env
+  const runAttempt = parseInt(env.GITHUB_RUN_ATTEMPT ?? '', 10)
+
+  const metadata: RunMetadata = {
+    commit_sha: getHeadSha(),
+    ref: env.GITHUB_REF || undefined,
+    // Pull requests run on a merge ref, the head branch is more useful
+    branch: env.GITHUB_HEAD_REF || env.GITHUB_REF_NAME || undefined,
+    pull_request: getPullRequestNumber(),
+    repository: env.GITHUB_REPOSITORY || undefined,
+    actor: env.GITHUB_ACTOR || undefined,
+    workflow: env.GITHUB_WORKFLOW || undefined,
+    workflow_run_id: env.GITHUB_RUN_ID || undefined,
+    workflow_run_attempt: isNaN(runAttempt) ? undefined : runAttempt,
+    workflow_run_url: getWorkflowRunUrl()
+  }
+
+  const entries = Object.entries(metadata).filter(
+    ([, value]) => value !== undefined
+  )
+  return entries.length > 0
+    ? (Object.fromEntries(entries) as RunMetadata)
+    : undefined
+}
+
+/**
+ * Derive the idempotency key of a trigger request. The key only depends on the
+ * workflow run, attempt, job and step, on what is triggered within the step
+ * and on the request body, so that retrying a request reuses its key while
+ * matrix jobs with different inputs get their own. Outside of GitHub Actions
+ * the key is random.
+ * @param scope What is triggered within the step, e.g. a suite or a rerun
+ * @param body The trigger request body
+ * @returns The idempotency key
+ */
+export function getIdempotencyKey(scope: string, body: unknown): string {
+  const { GITHUB_RUN_ID, GITHUB_RUN_ATTEMPT, GITHUB_JOB, GITHUB_ACTION } =
+    process.env
+  if (!GITHUB_RUN_ID) return randomUUID()
+
+  return createHash('sha256')
+    .update(
+      JSON.stringify([
+        GITHUB_RUN_ID,
+        GITHUB_RUN_ATTEMPT ?? '1',
+        GITHUB_JOB ?? '',
+        GITHUB_ACTION ?? '',
+        scope,
+        body
+      ])
+    )
+    .digest('hex')
+}
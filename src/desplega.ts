@@ -0,0 +1,455 @@
+import { RunMetadata } from './context.js'
+import { HttpError, NetworkError, TimeoutError } from './errors.js'
+import { SuiteRunEvent } from './results.js'
+import { parseRetryAfter } from './retry.js'
+import { isAbortError } from './utils.js'
+
+/**
+ * Status of a trigger response for an idempotency key that was already used
+ */
+const CONFLICT_STATUS = 409
+
+/**
+ * Statuses of redirect responses
+ */
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308]
+
+/**
+ * Redirects followed when downloading an artifact
+ */
+const MAX_REDIRECTS = 5
+
+/**
+ * Response of the version endpoint
+ *
+ *  {"version": "1.4.2"}
+ */
+export interface VersionResponse {
+  version?: string
+}
+
+/**
+ * Body of a trigger request. Either suites or single tests are run.
+ */
+export interface TriggerRequest {
+  suite_ids?: string[]
+  test_ids?: string[]
+  fail_fast: boolean
+  target_url?: string
+  env?: Record<string, string>
+  metadata?: RunMetadata
+}
+
+/**
+ * Response of the trigger endpoint. A conflict response for an idempotency key
+ * that was already used has the same shape.
+ *
+ *  {"run_id": "3f1c2a9e-5b7d-4e8a-9c0f-1d2e3f4a5b6c"}
+ */
+export interface TriggerResponse {
+  run_id: string
+}
+
+/**
+ * A triggered run
+ */
+export interface TriggeredRun {
+  runId: string
+  /** Whether an earlier request with the same idempotency key created it */
+  existing: boolean
+}
+
+/**
+ * A test suite, as returned by the suite listing endpoint
+ *
+ *  {"id": "9acb9753-a6ca-4f4e-ba33-952f23978c9d", "name": "Checkout", "tags": ["smoke", "payments"]}
+ */
+export interface Suite {
+  id: string
+  name: string
+  tags?: string[]
+}
+
+/**
+ * Response of the suite listing endpoint
+ */
+export interface SuitesResponse {
+  suites?: Suite[]
+}
+
+/**
+ * A file attached to a test, e.g. a screenshot, video or trace
+ *
+ *  {"id": "b7e0c3d2-1f4a-4c8e-9d6b-2a5f8e7c1d3b", "name": "failure.png", "type": "screenshot", "content_type": "image/png", "size": 48213}
+ */
+export interface Artifact {
+  id: string
+  name: string
+  type?: string
+  content_type?: string
+  /** Size in bytes, if known before downloading */
+  size?: number
+}
+
+/**
+ * Response of the artifact listing endpoint of a test
+ */
+export interface ArtifactsResponse {
+  artifacts?: Artifact[]
+}
+
+/**
+ * The state of a run, as returned by the status endpoint
+ */
+export type RunStatus = SuiteRunEvent
+
+/**
+ * The parts of a request that differ between endpoints
+ */
+interface ApiRequest {
+  method: 'GET' | 'POST'
+  headers?: Record<string, string>
+  body?: string
+  /** `manual` returns redirect responses instead of following them */
+  redirect?: RequestInit['redirect']
+  /** Whether to send the API key, true by default */
+  authenticated?: boolean
+}
+
+/**
+ * Options of a single request
+ */
+export interface RequestOptions {
+  /** Aborts the request, it then fails with an `AbortError` */
+  signal?: AbortSignal
+  /** Fail with a `TimeoutError` when there is no response after this long */
+  timeoutMs?: number
+}
+
+/**
+ * Client for the desplega.ai actions API. Failed requests throw an
+ * `HttpError`, `NetworkError` or `TimeoutError`.
+ */
+export class DesplegaClient {
+  /** Base URL of the API */
+  readonly originUrl: string
+
+  private readonly apiKey: string
+
+  /**
+   * @param originUrl Base URL of the API
+   * @param apiKey API key for authentication
+   */
+  constructor(originUrl: string, apiKey: string) {
+    this.originUrl = originUrl.replace(/\/+$/, '')
+    this.apiKey = apiKey
+  }
+
+  /**
+   * URL of the event stream of a run
+   * @param runId The ID of the run
+   * @returns The URL
+   */
+  eventsUrl(runId: string): string {
+    return `${this.originUrl}/external/actions/run/${runId}/events`
+  }
+
+  /**
+   * URL of the status endpoint of a run
+   * @param runId The ID of the run
+   * @returns The URL
+   */
+  statusUrl(runId: string): string {
+    return `${this.originUrl}/external/actions/run/${runId}/status`
+  }
+
+  /**
+   * Send a request to the API
+   * @param action What the request is for, used in error messages
+   * @param url The request URL
+   * @param request The request, the API key is added to its headers unless
+   *   it is not authenticated
+   * @param options Abort signal and timeout
+   * @returns The response, with a 2xx status or a redirect status when
+   *   redirects are handled manually
+   */
+  private async send(
+    action: string,
+    url: string,
+    request: ApiRequest,
+    options: RequestOptions = {}
+  ): Promise<Response> {
+    const timeout = options.timeoutMs
+      ? AbortSignal.timeout(options.timeoutMs)
+      : undefined
+    const signals = [options.signal, timeout].filter(
+      (signal): signal is AbortSignal => signal !== undefined
+    )
+
+    let response: Response
+    try {
+      response = await fetch(url, {
+        method: request.method,
+        headers: {
+          ...(request.authenticated !== false && { 'X-Api-Key': this.apiKey }),
+          ...request.headers
+        },
+        body: request.body,
+        redirect: request.redirect,
+        signal: signals.length > 1 ? AbortSignal.any(signals) : signals[0]
+      })
+    } catch (error) {
+      if (options.signal?.aborted) throw error
+      if (timeout?.aborted) throw new TimeoutError(action, options.timeoutMs!)
+      if (isAbortError(error)) throw error
+      throw new NetworkError(action, error)
+    }
+
+    const redirected =
+      request.redirect === 'manual' &&
+      REDIRECT_STATUSES.includes(response.status)
+
+    if (!response.ok && !redirected) {
+      throw new HttpError(
+        action,
+        response.status,
+        await response.text(),
+        parseRetryAfter(response.headers.get('Retry-After'))
+      )
+    }
+
+    return response
+  }
+
+  /**
+   * Fetch the version of the API
+   * @param options Abort signal and timeout
+   * @returns The version
+   */
+  async version(options?: RequestOptions): Promise<VersionResponse> {
+    const response = await this.send(
+      'fetch the API version',
+      `${this.originUrl}/version`,
+      { method: 'GET' },
+      options
+    )
+    return (await response.json()) as VersionResponse
+  }
+
+  /**
+   * Trigger a new run. Retrying a request with the same idempotency key
+   * returns the run the first request created.
+   * @param request The trigger request body
+   * @param idempotencyKey Identifies the request across retries
+   * @param options Abort signal and timeout
+   * @returns The triggered run
+   */
+  async trigger(
+    request: TriggerRequest,
+    idempotencyKey: string,
+    options?: RequestOptions
+  ): Promise<TriggeredRun> {
+    const action = 'trigger action'
+    let data: TriggerResponse | undefined
+    let existing = false
+
+    try {
+      const response = await this.send(
+        action,
+        `${this.originUrl}/external/actions/trigger`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Idempotency-Key': idempotencyKey
+          },
+          body: JSON.stringify(request)
+        },
+        options
+      )
+      data = (await response.json()) as TriggerResponse
+    } catch (error) {
+      // An earlier attempt created the run before its response was lost
+      const conflict =
+        error instanceof HttpError && error.status === CONFLICT_STATUS
+          ? parseTriggerResponse(error.body)
+          : undefined
+      if (!conflict?.run_id) throw error
+
+      data = conflict
+      existing = true
+    }
+
+    if (!data?.run_id) {
+      throw new Error('No run ID received from the trigger endpoint')
+    }
+
+    return { runId: data.run_id, existing }
+  }
+
+  /**
+   * Open the event stream of a run
+   * @param runId The ID of the run
+   * @param lastEventId Resume after this event, if set
+   * @param options Abort signal and timeout
+   * @returns The streaming response body
+   */
+  async events(
+    runId: string,
+    lastEventId: string,
+    options?: RequestOptions
+  ): Promise<ReadableStream<Uint8Array>> {
+    const action = 'connect to SSE endpoint'
+    const response = await this.send(
+      action,
+      this.eventsUrl(runId),
+      {
+        method: 'GET',
+        headers: lastEventId ? { 'Last-Event-ID': lastEventId } : {}
+      },
+      options
+    )
+
+    if (!response.body) {
+      throw new Error(`Failed to ${action}: ${response.status} without body`)
+    }
+
+    return response.body
+  }
+
+  /**
+   * Fetch the current state of a run
+   * @param runId The ID of the run
+   * @param options Abort signal and timeout
+   * @returns The run status, including per-test results
+   */
+  async status(runId: string, options?: RequestOptions): Promise<RunStatus> {
+    const response = await this.send(
+      `fetch the status of run ${runId}`,
+      this.statusUrl(runId),
+      { method: 'GET' },
+      options
+    )
+    return (await response.json()) as RunStatus
+  }
+
+  /**
+   * Cancel a run
+   * @param runId The ID of the run
+   * @param options Abort signal and timeout
+   */
+  async cancel(runId: string, options?: RequestOptions): Promise<void> {
+    await this.send(
+      `cancel run ${runId}`,
+      `${this.originUrl}/external/actions/run/${runId}/cancel`,
+      { method: 'POST' },
+      options
+    )
+  }
+
+  /**
+   * List the artifacts attached to a test of a run
+   * @param runId The ID of the run
+   * @param testId The ID of the test
+   * @param options Abort signal and timeout
+   * @returns The artifacts of the test
+   */
+  async listArtifacts(
+    runId: string,
+    testId: string,
+    options?: RequestOptions
+  ): Promise<Artifact[]> {
+    const response = await this.send(
+      `list the artifacts of test ${testId}`,
+      `${this.originUrl}/external/actions/run/${runId}/tests/${encodeURIComponent(testId)}/artifacts`,
+      { method: 'GET' },
+      options
+    )
+    const data = (await response.json()) as ArtifactsResponse
+    return data.artifacts ?? []
+  }
+
+  /**
+   * Download the content of an artifact. Redirects are followed, but only
+   * requests to the API send the API key, not e.g. signed storage URLs.
+   * @param runId The ID of the run
+   * @param artifactId The ID of the artifact
+   * @param options Abort signal and timeout, the timeout covers reading the
+   *   whole body
+   * @returns The streaming response body and its size, if the server sent it
+   */
+  async downloadArtifact(
+    runId: string,
+    artifactId: string,
+    options?: RequestOptions
+  ): Promise<{ body: ReadableStream<Uint8Array>; size?: number }> {
+    const action = `download artifact ${artifactId}`
+    const origin = new URL(this.originUrl).origin
+    let url = `${this.originUrl}/external/actions/run/${runId}/artifacts/${encodeURIComponent(artifactId)}`
+    let response: Response
+
+    for (let redirects = 0; ; redirects++) {
+      response = await this.send(
+        action,
+        url,
+        {
+          method: 'GET',
+          redirect: 'manual',
+          authenticated: new URL(url).origin === origin
+        },
+        options
+      )
+
+      const location = response.headers.get('Location')
+      if (!REDIRECT_STATUSES.includes(response.status) || !location) break
+
+      await response.body?.cancel()
+      if (redirects >= MAX_REDIRECTS) {
+        throw new Error(`Failed to ${action}: too many redirects`)
+      }
+      url = new URL(location, url).toString()
+    }
+
+    if (!response.body) {
+      throw new Error(`Failed to ${action}: ${response.status} without body`)
+    }
+
+    const length = Number(response.headers.get('Content-Length') ?? NaN)
+    return {
+      body: response.body,
+      size: Number.isFinite(length) ? length : undefined
+    }
+  }
+
+  /**
+   * List the suites available to the API key
+   * @param options Abort signal and timeout
+   * @returns All suites
+   */
+  async listSuites(options?: RequestOptions): Promise<Suite[]> {
+    const response = await this.send(
+      'list suites',
+      `${this.originUrl}/external/actions/suites`,
+      { method: 'GET' },
+      options
+    )
+    const data = (await response.json()) as SuitesResponse
+    return data.suites ?? []
+  }
+}
+
+/**
+ * Parse the body of a trigger or conflict response
+ * @param text The response body
+ * @returns The response, if the body is JSON
+ */
+function parseTriggerResponse(text: string): TriggerResponse | undefined {
+  try {
+    const data = JSON.parse(text) as Partial<TriggerResponse> | null
+    return typeof data?.run_id === 'string'
+      ? { run_id: data.run_id }
+      : undefined
+  } catch {
+    return undefined
+  }
+}
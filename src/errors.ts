@@ -0,0 +1,120 @@
+/**
+ * A failed request to the desplega.ai API. The message reads
+ * `Failed to <action>: <reason>`.
+ */
+export class ApiError extends Error {
+  /** What the request was for, e.g. `cancel run <id>` */
+  readonly action: string
+
+  /** Why the request failed, without the action */
+  readonly reason: string
+
+  /**
+   * @param action What the request was for
+   * @param reason Why the request failed
+   * @param options The underlying error, if any
+   */
+  constructor(action: string, reason: string, options?: { cause?: unknown }) {
+    super(`Failed to ${action}: ${reason}`, options)
+    this.name = 'ApiError'
+    this.action = action
+    this.reason = reason
+  }
+}
+
+/**
+ * The API answered with a non-2xx status
+ */
+export class HttpError extends ApiError {
+  /** The HTTP status code */
+  readonly status: number
+
+  /** The response body, as text */
+  readonly body: string
+
+  /** How long the server asked to wait before retrying, from `Retry-After` */
+  readonly retryAfterMs: number | undefined
+
+  /**
+   * @param action What the request was for
+   * @param status The HTTP status code
+   * @param body The response body
+   * @param retryAfterMs How long to wait before retrying, if the server said
+   */
+  constructor(
+    action: string,
+    status: number,
+    body: string,
+    retryAfterMs?: number
+  ) {
+    super(action, `${status} ${body}`.trim())
+    this.name = 'HttpError'
+    this.status = status
+    this.body = body
+    this.retryAfterMs = retryAfterMs
+  }
+}
+
+/**
+ * The request did not get a response, e.g. the connection was refused or
+ * dropped
+ */
+export class NetworkError extends ApiError {
+  /**
+   * @param action What the request was for
+   * @param cause The error `fetch` failed with
+   */
+  constructor(action: string, cause: unknown) {
+    super(action, cause instanceof Error ? cause.message : 'unknown error', {
+      cause
+    })
+    this.name = 'NetworkError'
+  }
+}
+
+/**
+ * The request did not complete within its own deadline. Aborts requested by
+ * the caller are not timeouts, they keep failing with an `AbortError`.
+ */
+export class TimeoutError extends ApiError {
+  /** The deadline of the request in milliseconds */
+  readonly timeoutMs: number
+
+  /**
+   * @param action What the request was for
+   * @param timeoutMs The deadline of the request in milliseconds
+   */
+  constructor(action: string, timeoutMs: number) {
+    super(action, `timed out after ${timeoutMs / 1000}s`)
+    this.name = 'TimeoutError'
+    this.timeoutMs = timeoutMs
+  }
+}
+
+/**
+ * Status of a response asking the client to slow down
+ */
+const TOO_MANY_REQUESTS_STATUS = 429
+
+/**
+ * Whether a failed request is worth retrying: network failures, timeouts, 429
+ * and 5xx responses are, anything else is not
+ * @param error The error the request failed with
+ * @returns True if the request may succeed when retried
+ */
+export function isRetryable(error: unknown): boolean {
+  if (error instanceof HttpError) {
+    return error.status === TOO_MANY_REQUESTS_STATUS || error.status >= 500
+  }
+  return error instanceof NetworkError || error instanceof TimeoutError
+}
+
+/**
+ * Describe why a request failed, without repeating what it was for
+ * @param error The error the request failed with
+ * @returns The reason of an API error, the message of any other error
+ */
+export function errorReason(error: unknown): string {
+  if (error instanceof ApiError) return error.reason
+  return error instanceof Error ? error.message : 'unknown error'
+}
@@ -0,0 +1,103 @@
+import { annotateTest } from './annotations.js'
+import * as host from './host.js'
+import * as log from './log.js'
+import {
+  OK_STATUSES,
+  PENDING_STATUSES,
+  RunResults,
+  SuiteRunEvent,
+  TestRunEvent
+} from './results.js'
+
+/**
+ * Handle a run status, regardless of the transport that reported it
+ * @param status The status of the test suite run
+ * @returns True if the run reached a final status
+ */
+export function handleStatus(status: string): boolean {
+  return !PENDING_STATUSES.includes(status)
+}
+
+/**
+ * Report the final status of the run as the `status` output, and fail the
+ * action unless it counts as successful
+ * @param status The final status of the run
+ */
+export function reportStatus(status: string): void {
+  host.setOutput('status', status)
+
+  if (!OK_STATUSES.includes(status)) {
+    host.setFailed(
+      `Test suite execution failed with status: ${status}`,
+      status === 'failed' ? 'failed' : 'error'
+    )
+  }
+}
+
+/**
+ * Handle a test-level update, regardless of the transport that reported it
+ * @param event The test event payload
+ * @param results Collects the state of the run
+ */
+export function handleTestEvent(
+  event: TestRunEvent,
+  results: RunResults
+): void {
+  const previous = results.getTest(event.test_id)?.status
+  const test = results.recordTestEvent(event)
+
+  // Replayed events, e.g. after a reconnection, must not annotate twice
+  if (test.status !== previous && !results.deferAnnotations) {
+    annotateTest(test, results.testUrl(test.id))
+  }
+}
+
+/**
+ * Handle a single parsed SSE event
+ * @param eventType The event type
+ * @param eventData The raw event data
+ * @param results Collects the state of the run
+ * @returns True if the run reached a final status
+ */
+export function handleEvent(
+  eventType: string,
+  eventData: string,
+  results: RunResults
+): boolean {
+  /*
+   *  Example event data:
+   *
+   *  id: 22048943-4045-44dc-8b7c-2f41c8e637d6
+   *  event: test_suite_run.event
+   *  data: {"status": "passed", "elapsed": 4.678537, "end_time": "2025-05-21T21:45:37.774642+00:00", "test_ids": ["7eb44e14-6758-4180-9f87-81b42f54ff70", "5e220e7b-feb6-42fa-b3a5-ee5a12b5d50e"], "start_time": "2025-05-21T21:45:33.096100+00:00", "test_suite_id": "9acb9753-a6ca-4f4e-ba33-952f23978c9d", "ts": "2025-05-21T21:45:37.774642"}
+   *
+   */
+
+  try {
+    const event = JSON.parse(eventData)
+    log.info(`Event received: ${JSON.stringify(event)}`)
+
+    const ts = event.ts ? new Date(event.ts).toISOString() : '-'
+    const status = event.status
+    const elapsed = event.elapsed ? `(${event.elapsed} seconds)` : '-'
+
+    log.info(`${eventType} at ${ts}: ${status} ${elapsed}`)
+
+    if (eventType === 'test_run.event' && event.test_id) {
+      handleTestEvent(event as TestRunEvent, results)
+      return false
+    }
+
+    if (eventType !== 'test_suite_run.event') {
+      return false
+    }
+
+    results.recordSuiteEvent(event as SuiteRunEvent)
+
+    return handleStatus(status)
+  } catch {
+    log.warning(`Failed to parse event data: ${eventData}`)
+  }
+
+  return false
+}
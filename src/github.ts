@@ -0,0 +1,217 @@
+/**
+ * Default base URL of the GitHub REST API
+ */
+const DEFAULT_GITHUB_API_URL = 'https://api.github.com'
+
+/**
+ * Comments are listed in pages of this size
+ */
+const PAGE_SIZE = 100
+
+/**
+ * A repository, as `owner/name`
+ */
+export interface Repository {
+  owner: string
+  repo: string
+}
+
+/**
+ * An issue or pull request comment
+ */
+export interface IssueComment {
+  id: number
+  body?: string
+  html_url?: string
+  user?: GitHubUser | null
+}
+
+/**
+ * The account that wrote a comment, or that a token belongs to
+ */
+export interface GitHubUser {
+  login: string
+  /** `Bot` for GitHub Apps, including `github-actions`, `User` otherwise */
+  type?: string
+}
+
+/**
+ * Fields of a check run the action sets, see
+ * https://docs.github.com/en/rest/checks/runs
+ */
+export interface CheckRunFields {
+  name?: string
+  head_sha?: string
+  status?: 'queued' | 'in_progress' | 'completed'
+  conclusion?: 'success' | 'failure' | 'neutral' | 'cancelled' | 'timed_out'
+  details_url?: string
+  external_id?: string
+  started_at?: string
+  completed_at?: string
+  output?: { title: string; summary: string }
+}
+
+/**
+ * A check run
+ */
+export interface CheckRun {
+  id: number
+  html_url?: string
+}
+
+/**
+ * Minimal client for the GitHub REST API, covering what the action needs
+ */
+export class GitHubClient {
+  private readonly token: string
+  private readonly baseUrl: string
+
+  /**
+   * @param token Token used to authenticate, e.g. `GITHUB_TOKEN`
+   * @param baseUrl Base URL of the API, defaults to `GITHUB_API_URL`
+   */
+  constructor(token: string, baseUrl?: string) {
+    this.token = token
+    this.baseUrl = (
+      baseUrl ||
+      process.env.GITHUB_API_URL ||
+      DEFAULT_GITHUB_API_URL
+    ).replace(/\/+$/, '')
+  }
+
+  /**
+   * Send a request to the API
+   * @param method The HTTP method
+   * @param path The request path, starting with `/`
+   * @param body Optional JSON body
+   * @returns The parsed JSON response
+   */
+  async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers: {
+        Accept: 'application/vnd.github+json',
+        Authorization: `Bearer ${this.token}`,
+        'Content-Type': 'application/json',
+        'User-Agent': 'desplega.ai-action',
+        'X-GitHub-Api-Version': '2022-11-28'
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new Error(
+        `GitHub API request ${method} ${path} failed: ${response.status} ${errorText}`
+      )
+    }
+
+    return (await response.json()) as T
+  }
+
+  /**
+   * Get the user the token belongs to. Fails for the tokens of GitHub Apps,
+   * including `GITHUB_TOKEN`.
+   * @returns The authenticated user
+   */
+  async getAuthenticatedUser(): Promise<GitHubUser> {
+    return this.request<GitHubUser>('GET', '/user')
+  }
+
+  /**
+   * List all comments of an issue or pull request
+   * @param repository The repository
+   * @param issueNumber The issue or pull request number
+   * @returns All comments, oldest first
+   */
+  async listIssueComments(
+    { owner, repo }: Repository,
+    issueNumber: number
+  ): Promise<IssueComment[]> {
+    const comments: IssueComment[] = []
+
+    for (let page = 1; ; page++) {
+      const batch = await this.request<IssueComment[]>(
+        'GET',
+        `/repos/${owner}/${repo}/issues/${issueNumber}/comments?per_page=${PAGE_SIZE}&page=${page}`
+      )
+      comments.push(...batch)
+
+      if (batch.length < PAGE_SIZE) return comments
+    }
+  }
+
+  /**
+   * Create a comment on an issue or pull request
+   * @param repository The repository
+   * @param issueNumber The issue or pull request number
+   * @param body The comment body
+   * @returns The created comment
+   */
+  async createIssueComment(
+    { owner, repo }: Repository,
+    issueNumber: number,
+    body: string
+  ): Promise<IssueComment> {
+    return this.request<IssueComment>(
+      'POST',
+      `/repos/${owner}/${repo}/issues/${issueNumber}/comments`,
+      { body }
+    )
+  }
+
+  /**
+   * Update an existing issue or pull request comment
+   * @param repository The repository
+   * @param commentId The ID of the comment
+   * @param body The new comment body
+   * @returns The updated comment
+   */
+  async updateIssueComment(
+    { owner, repo }: Repository,
+    commentId: number,
+    body: string
+  ): Promise<IssueComment> {
+    return this.request<IssueComment>(
+      'PATCH',
+      `/repos/${owner}/${repo}/issues/comments/${commentId}`,
+      { body }
+    )
+  }
+
+  /**
+   * Create a check run
+   * @param repository The repository
+   * @param fields The check run, `name` and `head_sha` are required
+   * @returns The created check run
+   */
+  async createCheckRun(
+    { owner, repo }: Repository,
+    fields: CheckRunFields
+  ): Promise<CheckRun> {
+    return this.request<CheckRun>(
+      'POST',
+      `/repos/${owner}/${repo}/check-runs`,
+      fields
+    )
+  }
+
+  /**
+   * Update an existing check run
+   * @param repository The repository
+   * @param checkRunId The ID of the check run
+   * @param fields The fields to update
+   * @returns The updated check run
+   */
+  async updateCheckRun(
+    { owner, repo }: Repository,
+    checkRunId: number,
+    fields: CheckRunFields
+  ): Promise<CheckRun> {
+    return this.request<CheckRun>(
+      'PATCH',
+      `/repos/${owner}/${repo}/check-runs/${checkRunId}`,
+      fields
+    )
+  }
+}
@@ -0,0 +1,147 @@
+import * as core from '@actions/core'
+
+/**
+ * Why a run failed. GitHub Actions only shows the message, other hosts can
+ * tell failures apart, e.g. by exit code.
+ *
+ * - `failed`: tests failed
+ * - `error`: the run errored, or the action could not run it
+ * - `timeout`: the run did not end within the timeout
+ * - `cancelled`: waiting for the run was cancelled
+ */
+export type FailureKind = 'failed' | 'error' | 'timeout' | 'cancelled'
+
+/**
+ * Options of warnings and errors that are shown as annotations
+ */
+export interface AnnotationOptions {
+  title?: string
+}
+
+/**
+ * Where the action runs: reads its inputs, receives its outputs and failures,
+ * and shows its logs
+ */
+export interface Host {
+  /** Read an input, an empty string when it is not set */
+  getInput(name: string, options?: { required?: boolean }): string
+  setOutput(name: string, value: unknown): void
+  setFailed(message: string, kind: FailureKind): void
+  /** Hide a value from the logs */
+  setSecret(secret: string): void
+  /** Keep a value for the post step */
+  saveState(name: string, value: string): void
+  debug(message: string): void
+  info(message: string): void
+  warning(message: string, options?: AnnotationOptions): void
+  error(message: string, options?: AnnotationOptions): void
+}
+
+/**
+ * The GitHub Actions runner, through `@actions/core`
+ */
+export const actionsHost: Host = {
+  getInput: (name, options) => core.getInput(name, options),
+  setOutput: (name, value) => core.setOutput(name, value),
+  setFailed: (message) => core.setFailed(message),
+  setSecret: (secret) => core.setSecret(secret),
+  saveState: (name, value) => core.saveState(name, value),
+  debug: (message) => core.debug(message),
+  info: (message) => core.info(message),
+  warning: (message, options) =>
+    options ? core.warning(message, options) : core.warning(message),
+  error: (message, options) =>
+    options ? core.error(message, options) : core.error(message)
+}
+
+let current: Host = actionsHost
+
+/**
+ * Run the action on another host, e.g. a terminal
+ * @param host The host
+ */
+export function useHost(host: Host): void {
+  current = host
+}
+
+/**
+ * Read an input
+ * @param name The name of the input
+ * @param options Whether the input is required
+ * @returns The value, an empty string when it is not set
+ */
+export function getInput(
+  name: string,
+  options?: { required?: boolean }
+): string {
+  return options ? current.getInput(name, options) : current.getInput(name)
+}
+
+/**
+ * Set an output
+ * @param name The name of the output
+ * @param value The value, serialized to JSON unless it is a string
+ */
+export function setOutput(name: string, value: unknown): void {
+  current.setOutput(name, value)
+}
+
+/**
+ * Fail the action
+ * @param message Why the action failed
+ * @param kind What kind of failure it is
+ */
+export function setFailed(message: string, kind: FailureKind = 'error'): void {
+  current.setFailed(message, kind)
+}
+
+/**
+ * Hide a value from the logs
+ * @param secret The value
+ */
+export function setSecret(secret: string): void {
+  current.setSecret(secret)
+}
+
+/**
+ * Keep a value for the post step
+ * @param name The name of the value
+ * @param value The value
+ */
+export function saveState(name: string, value: string): void {
+  current.saveState(name, value)
+}
+
+/**
+ * Log a debug message
+ * @param message The message
+ */
+export function debug(message: string): void {
+  current.debug(message)
+}
+
+/**
+ * Log a message
+ * @param message The message
+ */
+export function info(message: string): void {
+  current.info(message)
+}
+
+/**
+ * Log a warning
+ * @param message The message
+ * @param options Shown as an annotation with these options
+ */
+export function warning(message: string, options?: AnnotationOptions): void {
+  current.warning(message, options)
+}
+
+/**
+ * Log an error
+ * @param message The message
+ * @param options Shown as an annotation with these options
+ */
+export function error(message: string, options?: AnnotationOptions): void {
+  current.error(message, options)
+}
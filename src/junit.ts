@@ -0,0 +1,158 @@
+import { mkdir, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { errorReason } from './errors.js'
+import * as host from './host.js'
+import { RunResults, TestResult } from './results.js'
+
+/**
+ * Escape text for use in XML attributes and text nodes. Characters that are
+ * not allowed in XML 1.0 are dropped.
+ * @param text The text to escape
+ * @returns Escaped text
+ */
+function escapeXml(text: string): string {
+  return (
+    text
+      // eslint-disable-next-line no-control-regex
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;')
+  )
+}
+
+/**
+ * Format a duration in seconds for a `time` attribute
+ * @param seconds Duration in seconds
+ * @returns The duration with millisecond precision
+ */
+function formatTime(seconds: number | undefined): string {
+  return (seconds ?? 0).toFixed(3)
+}
+
+/**
+ * Render a single test as a `<testcase>` element
+ * @param test The test result
+ * @param classname The suite the test belongs to
+ * @returns The XML element
+ */
+function renderTestCase(test: TestResult, classname: string): string {
+  const attributes = `name="${escapeXml(test.name ?? test.id)}" classname="${escapeXml(classname)}" time="${formatTime(test.elapsed)}"`
+  const message = escapeXml(test.error ?? `Test ${test.status}`)
+  const details = escapeXml(
+    [test.failedStep && `Step: ${test.failedStep}`, test.error]
+      .filter(Boolean)
+      .join('\n')
+  )
+
+  let body: string
+  switch (test.status) {
+    case 'passed':
+      return `    <testcase ${attributes}/>`
+    case 'flaky':
+      // Same convention as Maven Surefire: a pass with a flaky failure
+      body = [
+        '      <properties>',
+        '        <property name="flaky" value="true"/>',
+        '      </properties>',
+        `      <flakyFailure message="${message}" type="flaky">${details}</flakyFailure>`
+      ].join('\n')
+      break
+    case 'failed':
+      body = `      <failure message="${message}" type="failed">${details}</failure>`
+      break
+    case 'error':
+      body = `      <error message="${message}" type="error">${details}</error>`
+      break
+    case 'skipped':
+      body = '      <skipped/>'
+      break
+    default:
+      // The run ended (e.g. timed out) before this test completed
+      body = `      <skipped message="Test did not complete (status: ${escapeXml(test.status)})"/>`
+  }
+
+  return `    <testcase ${attributes}>\n${body}\n    </testcase>`
+}
+
+/**
+ * Build a JUnit XML report from the collected results. Works with partial
+ * results, tests that did not complete are reported as skipped.
+ * @param results The collected state of the run
+ * @returns The XML document
+ */
+export function buildJUnitXml(results: RunResults): string {
+  const fallbackSuite = `desplega.ai run ${results.runId}`
+  const suites = new Map<string, TestResult[]>()
+
+  for (const suiteId of results.suiteIds) suites.set(suiteId, [])
+  for (const test of results.testResults) {
+    const suiteId = test.suiteId ?? fallbackSuite
+    suites.set(suiteId, [...(suites.get(suiteId) ?? []), test])
+  }
+
+  const countOf = (tests: TestResult[], statuses: string[]): number =>
+    tests.filter((test) => statuses.includes(test.status)).length
+  const totals = (tests: TestResult[]): string =>
+    `tests="${tests.length}" failures="${countOf(tests, ['failed'])}" errors="${countOf(tests, ['error'])}" skipped="${tests.length - countOf(tests, ['passed', 'flaky', 'failed', 'error'])}"`
+
+  const timestamp = results.startTime
+    ? ` timestamp="${escapeXml(results.startTime)}"`
+    : ''
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="desplega.ai" ${totals(results.testResults)} time="${formatTime(results.elapsed)}">`
+  ]
+
+  for (const [suiteId, tests] of suites) {
+    const time = tests.reduce((sum, test) => sum + (test.elapsed ?? 0), 0)
+
+    lines.push(
+      `  <testsuite name="${escapeXml(suiteId)}" ${totals(tests)} time="${formatTime(time)}"${timestamp}>`,
+      '    <properties>',
+      `      <property name="runId" value="${escapeXml(results.runId)}"/>`,
+      `      <property name="status" value="${escapeXml(results.suiteStatuses.get(suiteId) ?? results.status ?? 'unknown')}"/>`,
+      ...(results.rerunIds.length > 0
+        ? [
+            `      <property name="reruns" value="${escapeXml(results.rerunIds.join(','))}"/>`
+          ]
+        : []),
+      ...(results.runUrl
+        ? [`      <property name="url" value="${escapeXml(results.runUrl)}"/>`]
+        : []),
+      '    </properties>',
+      ...tests.map((test) => renderTestCase(test, suiteId)),
+      '  </testsuite>'
+    )
+  }
+
+  lines.push('</testsuites>', '')
+
+  return lines.join('\n')
+}
+
+/**
+ * Write a JUnit XML report and expose its path as the `junitPath` output.
+ * Failures to write it are only reported as warnings.
+ * @param results The collected state of the run
+ * @param filePath Where to write the report, relative to the workspace
+ */
+export async function writeJUnitReport(
+  results: RunResults,
+  filePath: string
+): Promise<void> {
+  try {
+    const reportPath = path.resolve(filePath)
+
+    await mkdir(path.dirname(reportPath), { recursive: true })
+    await writeFile(reportPath, buildJUnitXml(results), 'utf8')
+
+    host.info(`JUnit report written to ${reportPath}`)
+    host.setOutput('junitPath', reportPath)
+  } catch (error) {
+    host.warning(`Failed to write JUnit report: ${errorReason(error)}`)
+  }
+}
@@ -0,0 +1,52 @@
+import { AsyncLocalStorage } from 'node:async_hooks'
+import * as host from './host.js'
+
+/**
+ * The prefix of log lines written by the current asynchronous task
+ */
+const prefixStorage = new AsyncLocalStorage<string>()
+
+/**
+ * Run a task whose log lines are prefixed, e.g. with the suite it runs for, so
+ * that the output of tasks running side by side can be told apart
+ * @param prefix The prefix, shown as `[prefix]`
+ * @param task The task
+ * @returns The result of the task
+ */
+export function withLogPrefix<T>(prefix: string, task: () => T): T {
+  return prefixStorage.run(prefix, task)
+}
+
+/**
+ * Prefix a message for the current task
+ * @param message The message
+ * @returns The message, prefixed when running inside `withLogPrefix`
+ */
+export function prefixed(message: string): string {
+  const prefix = prefixStorage.getStore()
+  return prefix ? `[${prefix}] ${message}` : message
+}
+
+/**
+ * Log a debug message, prefixed for the current task
+ * @param message The message
+ */
+export function debug(message: string): void {
+  host.debug(prefixed(message))
+}
+
+/**
+ * Log a message, prefixed for the current task
+ * @param message The message
+ */
+export function info(message: string): void {
+  host.info(prefixed(message))
+}
+
+/**
+ * Log a warning, prefixed for the current task
+ * @param message The message
+ */
+export function warning(message: string): void {
+  host.warning(prefixed(message))
+}
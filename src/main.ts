@@ -1,211 +1,522 @@
-import * as core from '@actions/core'
+import { annotateTests } from './annotations.js'
+import { downloadArtifacts } from './artifacts.js'
+import { cancelRun } from './cancel.js'
+import { SuiteCheckRuns, startCheckRuns } from './checks.js'
+import { postPullRequestComment } from './comment.js'
+import { RunMetadata, getIdempotencyKey, getRunMetadata } from './context.js'
+import { DesplegaClient, TriggerRequest } from './desplega.js'
+import { errorReason, isRetryable } from './errors.js'
+import { reportStatus } from './events.js'
+import * as host from './host.js'
+import { writeJUnitReport } from './junit.js'
+import * as log from './log.js'
+import { pollRunStatus } from './poll.js'
+import { setResultOutputs, writeResultsFile } from './report.js'
+import { RunResults } from './results.js'
+import { DEFAULT_RETRY_POLICY, RetryPolicy, withRetry } from './retry.js'
+import { connectToSSE } from './stream.js'
+import { resolveSuiteIds } from './suites.js'
+import { writeJobSummary } from './summary.js'
+import {
+  RunTarget,
+  applyDeploymentStatus,
+  maskTarget,
+  parseEnv,
+  parseTargetUrl,
+  redactEnv,
+  redactUrl,
+  targetFields
+} from './target.js'
+import {
+  isAbortError,
+  mapWithConcurrency,
+  parseBoolean,
+  parseNumber,
+  parseStringArray
+} from './utils.js'
 
 /**
- * Parse a comma-separated string into an array of strings
- * @param input The input string
- * @returns Array of strings
+ * How events are received from the desplega.ai API
  */
-function parseStringArray(input: string | undefined): string[] | undefined {
-  if (!input) return undefined
-  return input
-    .split(',')
-    .map((item) => item.trim())
-    .filter(Boolean)
-}
+type Transport = 'sse' | 'poll' | 'auto'
 
 /**
- * Parse a string boolean to a boolean
- * @param input The input string
- * @returns Boolean value
+ * Whether the action triggers a new run or waits for an existing one
  */
-function parseBoolean(input: string): boolean {
-  return input.toLowerCase() === 'true'
-}
+type Mode = 'run' | 'wait'
 
 /**
- * Parse a string number to a number
- * @param input The input string
- * @returns Number value
+ * In `auto` mode, fall back to polling when the stream is silent this long
  */
-function parseNumber(input: string): number {
-  const num = parseInt(input, 10)
-  return isNaN(num) ? 0 : num
-}
+const SSE_IDLE_TIMEOUT_MS = 60000
 
 /**
- * Wait for a specified number of milliseconds
- * @param ms Milliseconds to wait
+ * Process signals sent when the workflow run is cancelled
+ */
+const CANCEL_SIGNALS: NodeJS.Signals[] = ['SIGINT', 'SIGTERM']
+
+/**
+ * Parse the transport input
+ * @param input The input string
+ * @returns The transport, `sse` when not provided
  */
-async function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms))
+function parseTransport(input: string): Transport {
+  const transport = (input || 'sse').toLowerCase()
+  if (transport !== 'sse' && transport !== 'poll' && transport !== 'auto') {
+    throw new Error(
+      `Invalid transport "${input}", expected one of: sse, poll, auto`
+    )
+  }
+  return transport
 }
 
 /**
- * Retry a function with exponential backoff
- * @param fn Function to retry
- * @param maxRetries Maximum number of retries (0 means no retries)
- * @param retryableErrorCheck Function to check if error should trigger retry
- * @returns Promise that resolves with the function result
+ * Wait for a run to complete using the given transport. All attempts,
+ * including a fallback from SSE to polling, count against the timeout.
+ * @param client The desplega.ai API client
+ * @param runId The ID of the run
+ * @param transport How to receive run updates
+ * @param timeoutSeconds Maximum time to wait for the run to complete
+ * @param pollInterval Delay in seconds between status requests when polling
+ * @param retryPolicy How event stream connections are retried
+ * @param results Collects the state of the run
+ * @param signal Stops waiting, e.g. when the workflow run is cancelled
+ * @param deadline Stops waiting at this time even before the timeout, in
+ *   milliseconds since the epoch
+ * @returns Whether the run reached a final status
  */
-async function retryWithBackoff<T>(
-  fn: () => Promise<T>,
-  maxRetries: number,
-  retryableErrorCheck: (error: unknown) => boolean
-): Promise<T> {
-  let lastError: unknown
-
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
-    try {
-      return await fn()
-    } catch (error) {
-      lastError = error
+async function waitForCompletion(
+  client: DesplegaClient,
+  runId: string,
+  transport: Transport,
+  timeoutSeconds: number,
+  pollInterval: number,
+  retryPolicy: RetryPolicy,
+  results: RunResults,
+  signal: AbortSignal,
+  deadline?: number
+): Promise<boolean> {
+  const abortController = new AbortController()
+  let timedOut = false
+
+  const timeoutMs = Math.min(
+    timeoutSeconds * 1000,
+    deadline === undefined ? Infinity : Math.max(deadline - Date.now(), 0)
+  )
+  const timeoutId = setTimeout(() => {
+    timedOut = true
+    abortController.abort()
+  }, timeoutMs)
+
+  const onAbort = (): void => abortController.abort()
+  signal.addEventListener('abort', onAbort, { once: true })
+
+  let errorPrefix = 'SSE connection error'
 
-      // Don't retry if this is the last attempt or error is not retryable
-      if (attempt === maxRetries || !retryableErrorCheck(error)) {
-        throw error
+  try {
+    if (transport !== 'poll') {
+      // Connect to SSE for real-time events
+      log.info(`Connecting to SSE endpoint: ${client.eventsUrl(runId)}`)
+
+      try {
+        await connectToSSE(client, runId, abortController.signal, results, {
+          idleTimeoutMs: transport === 'auto' ? SSE_IDLE_TIMEOUT_MS : undefined,
+          retryPolicy
+        })
+        return true
+      } catch (error) {
+        if (transport === 'sse' || isAbortError(error)) throw error
+
+        log.warning(
+          `SSE unavailable (${errorReason(error)}), falling back to polling`
+        )
       }
+    }
 
-      // Calculate delay: 1s, 2s, 4s for attempts 1, 2, 3
-      const delay = Math.pow(2, attempt) * 1000
-      core.info(`Attempt ${attempt + 1} failed, retrying in ${delay}ms...`)
-      await sleep(delay)
+    errorPrefix = 'Status polling error'
+    log.info(
+      `Polling status endpoint every ${pollInterval}s: ${client.statusUrl(runId)}`
+    )
+
+    await pollRunStatus(
+      client,
+      runId,
+      abortController.signal,
+      pollInterval,
+      results
+    )
+    return true
+  } catch (error) {
+    if (isAbortError(error)) {
+      if (timedOut) {
+        host.setFailed(
+          log.prefixed(
+            `Timed out after ${timeoutSeconds}s waiting for test suite completion`
+          ),
+          'timeout'
+        )
+      } else if (signal.aborted) {
+        host.setFailed(
+          log.prefixed('The workflow run was cancelled'),
+          'cancelled'
+        )
+      } else {
+        log.debug('Waiting for the run was aborted')
+      }
+    } else if (error instanceof Error) {
+      host.setFailed(log.prefixed(`${errorPrefix}: ${error.message}`))
+    } else {
+      host.setFailed(log.prefixed(`Unknown ${errorPrefix}`))
     }
+
+    return false
+  } finally {
+    clearTimeout(timeoutId)
+    signal.removeEventListener('abort', onAbort)
+    abortController.abort()
   }
+}
 
-  throw lastError
+/**
+ * Fields of the trigger request body shared by every run that is triggered
+ * @param options How runs are triggered
+ * @returns The fields
+ */
+function runSettings(
+  options: Pick<FollowOptions, 'failFast' | 'target' | 'metadata'>
+): Omit<TriggerRequest, 'suite_ids' | 'test_ids'> {
+  const settings: Omit<TriggerRequest, 'suite_ids' | 'test_ids'> = {
+    fail_fast: options.failFast,
+    ...targetFields(options.target)
+  }
+  if (options.metadata) settings.metadata = options.metadata
+  return settings
 }
 
 /**
- * Create an SSE client for real-time event streaming
- * @param url The SSE endpoint URL
- * @param headers Optional headers
+ * Settings for following a run until it ends
  */
-async function connectToSSE(
-  url: string,
-  headers: Record<string, string>,
+interface FollowOptions {
+  client: DesplegaClient
+  transport: Transport
   timeoutSeconds: number
-): Promise<void> {
-  try {
-    const abortController = new AbortController()
-    let timedOut = false
-
-    const timeoutId = setTimeout(() => {
-      timedOut = true
-      abortController.abort()
-    }, timeoutSeconds * 1000)
-
-    const response = await fetch(url, {
-      method: 'GET',
-      headers,
-      signal: abortController.signal
-    })
+  /** No run is waited for past this time, in milliseconds since the epoch */
+  deadline?: number
+  pollInterval: number
+  dashboardUrl: string
+  failFast: boolean
+  maxRetries: number
+  /** How trigger calls and event stream connections are retried */
+  retryPolicy: RetryPolicy
+  /** Forwarded with every run that is triggered, reruns included */
+  target: RunTarget
+  /** Where the runs were triggered from, undefined when not sent */
+  metadata: RunMetadata | undefined
+  /** What the run was triggered for, scopes the idempotency keys of reruns */
+  triggerScope: string
+  /** How many times to rerun the failed tests of a failed run */
+  rerunFailed: number
+  /** Stops waiting, e.g. when the workflow run is cancelled */
+  signal: AbortSignal
+  /** Called with the ID of every run that is triggered to rerun tests */
+  onRerun: (runId: string) => void
+}
 
-    if (!response.ok || !response.body) {
-      throw new Error(`Failed to connect to SSE endpoint: ${response.status}`)
+/**
+ * Wait for a run to end and rerun its failed tests. A run that is no longer
+ * waited for (timeout, cancellation, failure) is cancelled.
+ * @param results Collects the state of the run, all attempts are combined
+ * @param options How to follow the run
+ * @returns Whether the last attempt reached a final status
+ */
+async function followRun(
+  results: RunResults,
+  options: FollowOptions
+): Promise<boolean> {
+  // Wait for a run, and cancel it when waiting stops early
+  const waitOrCancel = async (attempt: RunResults): Promise<boolean> => {
+    const completed = await waitForCompletion(
+      options.client,
+      attempt.runId,
+      options.transport,
+      options.timeoutSeconds,
+      options.pollInterval,
+      options.retryPolicy,
+      attempt,
+      options.signal,
+      options.deadline
+    )
+
+    if (!completed) {
+      await cancelRun(options.client, attempt.runId, attempt)
     }
+    return completed
+  }
 
-    const reader = response.body.getReader()
-    const decoder = new TextDecoder()
-    let buffer = ''
+  // Failures are annotated once it is known whether a rerun passes them
+  results.deferAnnotations = options.rerunFailed > 0
+
+  let completed = await waitOrCancel(results)
+
+  // Rerun only the failed tests, all attempts are combined into `results`
+  for (
+    let attempt = 1;
+    completed && attempt <= options.rerunFailed && results.status === 'failed';
+    attempt++
+  ) {
+    const testIds = results.failedTestIds
+    if (testIds.length === 0) {
+      log.warning('No failed tests were reported, not rerunning')
+      break
+    }
+
+    log.info(
+      `Rerunning ${testIds.length} failed tests (attempt ${attempt}/${options.rerunFailed})`
+    )
 
+    let rerunId: string
     try {
-      while (true) {
-        const { done, value } = await reader.read()
-        if (done) break
-
-        buffer += decoder.decode(value, { stream: true })
-
-        // Process complete events in the buffer
-        const events = buffer.split('\n\n')
-        buffer = events.pop() || '' // last element may be incomplete
-
-        for (const event of events) {
-          if (!event.trim()) continue
-
-          // Extract the event data
-          const eventData = event
-            .split('\n')
-            .find((l) => l.startsWith('data:'))
-            ?.substring(5)
-            .trim()
-
-          const eventType = event
-            .split('\n')
-            .find((l) => l.startsWith('event:'))
-            ?.substring(6)
-            .trim()
-
-          core.debug(`Event type: ${eventType}`)
-          core.debug(`Event data: ${eventData}`)
-
-          /*
-           *  Example event data:
-           *
-           *  id: 22048943-4045-44dc-8b7c-2f41c8e637d6
-           *  event: test_suite_run.event
-           *  data: {"status": "passed", "elapsed": 4.678537, "end_time": "2025-05-21T21:45:37.774642+00:00", "test_ids": ["7eb44e14-6758-4180-9f87-81b42f54ff70", "5e220e7b-feb6-42fa-b3a5-ee5a12b5d50e"], "start_time": "2025-05-21T21:45:33.096100+00:00", "test_suite_id": "9acb9753-a6ca-4f4e-ba33-952f23978c9d", "ts": "2025-05-21T21:45:37.774642"}
-           *
-           */
-
-          if (eventData) {
-            try {
-              const event = JSON.parse(eventData)
-              core.info(`Event received: ${JSON.stringify(event)}`)
-
-              const ts = event.ts ? new Date(event.ts).toISOString() : '-'
-              const status = event.status
-              const elapsed = event.elapsed ? `(${event.elapsed} seconds)` : '-'
-
-              core.info(`${eventType} at ${ts}: ${status} ${elapsed}`)
-
-              if (eventType !== 'test_suite_run.event') {
-                continue
-              }
-
-              // Check if the run has completed
-              if (!['pending', 'running'].includes(status)) {
-                core.setOutput('status', status)
-
-                if (!['passed', 'flaky'].includes(status)) {
-                  core.setFailed(
-                    `Test suite execution failed with status: ${status}`
-                  )
-                }
-
-                return
-              }
-            } catch {
-              core.warning(`Failed to parse event data: ${eventData}`)
-            }
+      rerunId = await triggerRun(
+        options.client,
+        {
+          test_ids: testIds,
+          ...runSettings(options)
+        },
+        { policy: options.retryPolicy, maxRetries: options.maxRetries },
+        `${options.triggerScope}/rerun-${attempt}`
+      )
+    } catch (error) {
+      log.warning(`Failed to rerun failed tests: ${errorReason(error)}`)
+      break
+    }
+
+    log.info(`Rerun ID: ${rerunId}`)
+    options.onRerun(rerunId)
+
+    const rerun = new RunResults(rerunId, options.dashboardUrl)
+    rerun.deferAnnotations = true
+    completed = await waitOrCancel(rerun)
+    results.mergeRerun(rerun)
+  }
+
+  if (results.deferAnnotations) annotateTests(results)
+  return completed
+}
+
+/**
+ * Trigger one run per suite, at most `maxConcurrency` at once, and follow
+ * them side by side. Output of each run is prefixed with its suite ID.
+ * @param suiteIds The suites to run
+ * @param maxConcurrency Maximum number of runs at once, 0 means no limit
+ * @param options How to follow the runs
+ * @param onRun Called with the results of every run once it was triggered,
+ *   returns a callback to run once the run ended
+ * @returns The results of every run, and whether they all reached a final
+ *   status
+ */
+async function runSuitesInParallel(
+  suiteIds: string[],
+  maxConcurrency: number,
+  options: Omit<FollowOptions, 'onRerun' | 'triggerScope'>,
+  onRun: (
+    suiteId: string,
+    results: RunResults
+  ) => {
+    onRerun: (runId: string) => void
+    onEnd: () => Promise<void>
+  }
+): Promise<{ runs: RunResults[]; completed: boolean }> {
+  log.info(
+    `Triggering ${suiteIds.length} runs, one per suite${maxConcurrency > 0 ? `, at most ${maxConcurrency} at once` : ''}`
+  )
+
+  const outcomes = await mapWithConcurrency(
+    suiteIds,
+    maxConcurrency,
+    async (suiteId) =>
+      log.withLogPrefix(suiteId, async () => {
+        // Suites still queued once waiting stopped are not triggered at all,
+        // they would only be cancelled right away
+        if (
+          options.signal.aborted ||
+          (options.deadline !== undefined && Date.now() >= options.deadline)
+        ) {
+          if (options.signal.aborted) {
+            host.setFailed(
+              log.prefixed('Not triggered, the workflow run was cancelled'),
+              'cancelled'
+            )
+          } else {
+            host.setFailed(
+              log.prefixed(
+                `Not triggered, timed out after ${options.timeoutSeconds}s`
+              ),
+              'timeout'
+            )
           }
+
+          const results = new RunResults('', undefined, [suiteId])
+          results.recordSuiteEvent({
+            status: 'cancelled',
+            test_suite_id: suiteId
+          })
+          return { results, completed: false }
         }
-      }
-    } catch (e) {
-      if (e instanceof Error && e.name === 'AbortError') {
-        if (timedOut) {
-          core.setFailed(
-            `Timed out after ${timeoutSeconds}s waiting for test suite completion`
+
+        let runId: string
+        try {
+          runId = await triggerRun(
+            options.client,
+            {
+              suite_ids: [suiteId],
+              ...runSettings(options)
+            },
+            { policy: options.retryPolicy, maxRetries: options.maxRetries },
+            `suite/${suiteId}`
+          )
+        } catch (error) {
+          host.setFailed(
+            log.prefixed(
+              error instanceof Error
+                ? error.message
+                : 'An unknown error occurred'
+            )
           )
-        } else {
-          console.debug('SSE reader aborted')
+
+          const results = new RunResults('', undefined, [suiteId])
+          results.recordSuiteEvent({ status: 'error', test_suite_id: suiteId })
+          return { results, completed: true }
         }
-      } else {
-        throw e
-      }
-    } finally {
-      clearTimeout(timeoutId)
-      reader.releaseLock()
-      abortController.abort()
-    }
+
+        log.info(`Run ID: ${runId}`)
+
+        const results = new RunResults(runId, options.dashboardUrl, [suiteId])
+        const { onRerun, onEnd } = onRun(suiteId, results)
+        const completed = await followRun(results, {
+          ...options,
+          triggerScope: `suite/${suiteId}`,
+          onRerun
+        })
+        await onEnd()
+
+        log.info(`Run ${runId} ended with status: ${results.status}`)
+        return { results, completed }
+      })
+  )
+
+  return {
+    runs: outcomes.map((outcome) => outcome.results),
+    completed: outcomes.every((outcome) => outcome.completed)
+  }
+}
+
+/**
+ * Parse the retry inputs
+ * @param baseDelay Ceiling of the first retry delay in seconds
+ * @param maxDelay Ceiling of any retry delay in seconds
+ * @param maxTime Maximum time in seconds to spend retrying a request
+ * @returns The retry policy, with defaults for inputs that are not provided
+ */
+function parseRetryPolicy(
+  baseDelay: string,
+  maxDelay: string,
+  maxTime: string
+): RetryPolicy {
+  const seconds = (input: string, fallbackMs: number): number =>
+    input ? parseNumber(input) * 1000 : fallbackMs
+
+  return {
+    baseDelayMs: seconds(baseDelay, DEFAULT_RETRY_POLICY.baseDelayMs),
+    maxDelayMs: seconds(maxDelay, DEFAULT_RETRY_POLICY.maxDelayMs),
+    maxElapsedMs: seconds(maxTime, DEFAULT_RETRY_POLICY.maxElapsedMs)
+  }
+}
+
+/**
+ * Parse the mode input
+ * @param input The input string
+ * @returns The mode, `run` when not provided
+ */
+function parseMode(input: string): Mode {
+  const mode = (input || 'run').toLowerCase()
+  if (mode !== 'run' && mode !== 'wait') {
+    throw new Error(`Invalid mode "${input}", expected one of: run, wait`)
+  }
+  return mode
+}
+
+/**
+ * Fetch and log the API version. Failures are only reported as warnings.
+ * @param client The desplega.ai API client
+ * @param retryPolicy How to retry the version request
+ */
+async function logApiVersion(
+  client: DesplegaClient,
+  retryPolicy: RetryPolicy
+): Promise<void> {
+  try {
+    const data = await withRetry(async () => client.version(), {
+      policy: retryPolicy,
+      maxRetries: 3,
+      isRetryable: () => true // retry on any error
+    })
+    const version = data?.version ?? 'unknown'
+
+    host.info(`Using API version: ${version}`)
+    host.setOutput('version', version)
   } catch (error) {
-    if (error instanceof Error) {
-      core.setFailed(`SSE connection error: ${error.message}`)
-    } else {
-      core.setFailed('Unknown SSE connection error')
-    }
+    host.warning(`Failed to fetch version after retries: ${errorReason(error)}`)
   }
 }
 
+/**
+ * Hide the secret fields of a trigger request body, for logging
+ * @param body The trigger request body
+ * @returns A copy of the body with the target redacted
+ */
+function redactBody(body: TriggerRequest): Record<string, unknown> {
+  const redacted: Record<string, unknown> = { ...body }
+  if (body.target_url) redacted.target_url = redactUrl(body.target_url)
+  if (body.env) redacted.env = redactEnv(body.env)
+  return redacted
+}
+
+/**
+ * Trigger a new test suite run. Network failures, timeouts, 429 and 5xx
+ * responses are retried, all attempts send the same idempotency key.
+ * @param client The desplega.ai API client
+ * @param body The trigger request body
+ * @param retry How to retry the trigger call
+ * @param scope What is triggered within the step, part of the idempotency key
+ * @returns The ID of the new run, or of the run an earlier attempt created
+ */
+async function triggerRun(
+  client: DesplegaClient,
+  body: TriggerRequest,
+  retry: { policy: RetryPolicy; maxRetries: number },
+  scope: string
+): Promise<string> {
+  log.info('Triggering test suite execution...')
+  log.debug(`Request body: ${JSON.stringify(redactBody(body))}`)
+
+  // The same key on every attempt lets the API detect a retried trigger
+  const idempotencyKey = getIdempotencyKey(scope, body)
+  log.debug(`Idempotency key: ${idempotencyKey}`)
+
+  const triggered = await withRetry(
+    async () => client.trigger(body, idempotencyKey),
+    { ...retry, isRetryable }
+  )
+
+  if (triggered.existing) {
+    log.info(
+      `A run already exists for this trigger, attaching to run ${triggered.runId}`
+    )
+  }
+
+  return triggered.runId
+}
+
 /**
  * The main function for the action.
  * @returns Resolves when the action is complete.
@@ -213,137 +524,303 @@ async function connectToSSE(
 export async function run(): Promise<void> {
   try {
     // Get inputs
-    const apiKey = core.getInput('apiKey', { required: true })
-    const originUrl = core.getInput('originUrl')
-    const suiteIdsInput = core.getInput('suiteIds')
-    const failFast = parseBoolean(core.getInput('failFast'))
-    const block = parseBoolean(core.getInput('block'))
-    const maxRetries = parseNumber(core.getInput('maxRetries'))
-    const timeout = parseNumber(core.getInput('timeout')) || 600
+    const apiKey = host.getInput('apiKey', { required: true })
+    const originUrl = host.getInput('originUrl')
+    const mode = parseMode(host.getInput('mode'))
+    const runIdInput = host.getInput('runId')
+    const suiteIdsInput = host.getInput('suiteIds')
+    const failFast = parseBoolean(host.getInput('failFast'))
+    const block = parseBoolean(host.getInput('block') || 'true')
+    const maxRetries = parseNumber(host.getInput('maxRetries'))
+    const retryPolicy = parseRetryPolicy(
+      host.getInput('retryBaseDelay'),
+      host.getInput('retryMaxDelay'),
+      host.getInput('retryMaxTime')
+    )
+    const rerunFailed = parseNumber(host.getInput('rerunFailed'))
+    const timeout = parseNumber(host.getInput('timeout')) || 600
+    const transport = parseTransport(host.getInput('transport'))
+    const pollInterval = parseNumber(host.getInput('pollInterval')) || 5
+    const jobSummary = parseBoolean(host.getInput('jobSummary') || 'true')
+    const dashboardUrl = host.getInput('dashboardUrl')
+    const junitPath = host.getInput('junitPath')
+    const resultsPath = host.getInput('resultsPath')
+    const artifactsDir = host.getInput('artifactsDir')
+    const githubToken = host.getInput('githubToken')
+    const commentKey = host.getInput('commentKey')
+    const checkRuns = parseBoolean(host.getInput('checkRuns'))
+    const parallel = parseBoolean(host.getInput('parallel'))
+    const maxConcurrency = parseNumber(host.getInput('maxConcurrency') || '5')
+    const target: RunTarget = {
+      url: parseTargetUrl(host.getInput('targetUrl')),
+      env: parseEnv(host.getInput('env'))
+    }
+    const sendMetadata = parseBoolean(host.getInput('sendMetadata') || 'true')
 
     // Parse suiteIds if provided
-    const suiteIds = parseStringArray(suiteIdsInput)
+    let suiteIds = parseStringArray(suiteIdsInput)
+    const suiteNames = parseStringArray(host.getInput('suiteNames'))
+    const suiteTags = parseStringArray(host.getInput('suiteTags'))
 
     // Debug logs
-    core.debug('Inputs:')
-    core.debug(`- originUrl: ${originUrl}`)
-    core.debug(`- suiteIds: ${suiteIds ? suiteIds.join(', ') : 'not provided'}`)
-    core.debug(`- failFast: ${failFast}`)
-    core.debug(`- block: ${block}`)
-    core.debug(`- maxRetries: ${maxRetries}`)
-    core.debug(`- timeout: ${timeout}`)
-
-    // Prepare request body
-    const body: Record<string, unknown> = {}
-    if (suiteIds) body.suite_ids = suiteIds
-    body.fail_fast = failFast
-
-    // Not implemented yet
-    // body.block = block
+    host.debug('Inputs:')
+    host.debug(`- originUrl: ${originUrl}`)
+    host.debug(`- mode: ${mode}`)
+    host.debug(`- runId: ${runIdInput || 'not provided'}`)
+    host.debug(`- suiteIds: ${suiteIds ? suiteIds.join(', ') : 'not provided'}`)
+    host.debug(
+      `- suiteNames: ${suiteNames ? suiteNames.join(', ') : 'not provided'}`
+    )
+    host.debug(
+      `- suiteTags: ${suiteTags ? suiteTags.join(', ') : 'not provided'}`
+    )
+    host.debug(`- failFast: ${failFast}`)
+    host.debug(`- block: ${block}`)
+    host.debug(`- maxRetries: ${maxRetries}`)
+    host.debug(
+      `- retryPolicy: base ${retryPolicy.baseDelayMs}ms, max ${retryPolicy.maxDelayMs}ms, total ${retryPolicy.maxElapsedMs}ms`
+    )
+    host.debug(`- rerunFailed: ${rerunFailed}`)
+    host.debug(`- timeout: ${timeout}`)
+    host.debug(`- transport: ${transport}`)
+    host.debug(`- pollInterval: ${pollInterval}`)
+    host.debug(`- jobSummary: ${jobSummary}`)
+    host.debug(`- dashboardUrl: ${dashboardUrl || 'not provided'}`)
+    host.debug(`- junitPath: ${junitPath || 'not provided'}`)
+    host.debug(`- resultsPath: ${resultsPath || 'not provided'}`)
+    host.debug(`- artifactsDir: ${artifactsDir || 'not provided'}`)
+    host.debug(`- githubToken: ${githubToken ? 'provided' : 'not provided'}`)
+    host.debug(`- commentKey: ${commentKey || 'not provided'}`)
+    host.debug(`- checkRuns: ${checkRuns}`)
+    host.debug(`- parallel: ${parallel}`)
+    host.debug(`- maxConcurrency: ${maxConcurrency}`)
+    host.debug(
+      `- targetUrl: ${target.url ? redactUrl(target.url) : 'not provided'}`
+    )
+    host.debug(
+      `- env: ${target.env ? redactEnv(target.env).join(', ') : 'not provided'}`
+    )
+    host.debug(`- sendMetadata: ${sendMetadata}`)
 
-    try {
-      const versionUrl = `${originUrl}/version`
+    if (mode === 'wait' && !runIdInput) {
+      throw new Error('The runId input is required when mode is "wait"')
+    }
 
-      const fetchVersion = async (): Promise<string> => {
-        const resp = await fetch(versionUrl)
-        if (!resp.ok) {
-          throw new Error(`Version endpoint returned ${resp.status}`)
-        }
-        const data = (await resp.json()) as Record<string, string>
-        return data?.version ?? 'unknown'
+    const client = new DesplegaClient(originUrl, apiKey)
+    await logApiVersion(client, retryPolicy)
+
+    // A given run ID means following an existing run instead of triggering
+    const attach = mode === 'wait' || Boolean(runIdInput)
+    const fanOut = parallel && !attach
+
+    if (attach) {
+      const ignored = [
+        suiteIds && 'suiteIds',
+        suiteNames && 'suiteNames',
+        suiteTags && 'suiteTags',
+        parallel && 'parallel',
+        target.url && 'targetUrl',
+        target.env && 'env'
+      ].filter(Boolean)
+
+      if (ignored.length > 0) {
+        host.warning(
+          `${ignored.join(', ')} ${ignored.length === 1 ? 'is' : 'are'} ignored when attaching to an existing run`
+        )
       }
+    } else if (!applyDeploymentStatus(target)) {
+      host.setOutput('status', 'skipped')
+      return
+    }
+
+    maskTarget(target)
 
-      const version = await retryWithBackoff(
-        fetchVersion,
-        3, // 3 retries (exponential backoff: 1s, 2s, 4s, 8s = ~15s max)
-        () => true // retry on any error
+    if (!attach && (suiteNames || suiteTags)) {
+      const resolved = await resolveSuiteIds(
+        client,
+        suiteNames ?? [],
+        suiteTags ?? []
       )
+      suiteIds = Array.from(new Set([...(suiteIds ?? []), ...resolved]))
+    }
 
-      core.info(`Using API version: ${version}`)
-      core.setOutput('version', version)
-    } catch (error) {
-      core.warning(
-        `Failed to fetch version after retries: ${error instanceof Error ? error.message : 'unknown error'}`
+    if (fanOut && !suiteIds?.length) {
+      throw new Error(
+        'The parallel input requires suiteIds, suiteNames or suiteTags'
       )
     }
 
-    // Trigger the action
-    core.info('Triggering test suite execution...')
-    core.debug(`Request body: ${JSON.stringify(body)}`)
+    if (!attach && target.url) host.info(`Target URL: ${redactUrl(target.url)}`)
+    if (!attach && target.env) {
+      host.info(`Environment: ${redactEnv(target.env).join(', ')}`)
+    }
+
+    const metadata = sendMetadata ? getRunMetadata() : undefined
+    if (metadata) host.debug(`Run metadata: ${JSON.stringify(metadata)}`)
+
+    // Lets the post step clean up when this step is cancelled or killed
+    host.saveState('originUrl', originUrl)
+    host.saveState('startTime', new Date().toISOString())
+
+    // The latest run ID of every run that is followed, for the post step
+    const runIds = new Map<string, string>()
+    const saveRunId = (key: string, id: string): void => {
+      runIds.set(key, id)
+      host.saveState('runId', Array.from(runIds.values()).join(','))
+    }
 
-    const triggerUrl = `${originUrl}/external/actions/trigger`
+    let runId = ''
 
-    // Function to check if an error should trigger a retry
-    const shouldRetry = (error: unknown): boolean => {
-      if (error instanceof Error) {
-        // Check if it's a fetch error (network issues)
-        if (error.message.includes('fetch')) {
-          return true
+    if (fanOut) {
+      if (!block) host.warning('block is ignored when parallel is true')
+    } else {
+      if (attach) {
+        runId = runIdInput
+        host.info(`Attaching to existing run ${runId}`)
+      } else {
+        // Prepare request body
+        const body: TriggerRequest = {
+          ...(suiteIds && { suite_ids: suiteIds }),
+          ...runSettings({ failFast, target, metadata })
         }
 
-        // Check if error message contains HTTP status indicating server error (5xx)
-        const statusMatch = error.message.match(
-          /Failed to trigger action: (\d+)/
+        runId = await triggerRun(
+          client,
+          body,
+          { policy: retryPolicy, maxRetries },
+          'run'
         )
-        if (statusMatch) {
-          const status = parseInt(statusMatch[1], 10)
-          return status >= 500 && status < 600
-        }
+        host.info(`Run ID: ${runId}`)
       }
-      return false
-    }
 
-    // Trigger function that can be retried
-    const triggerAction = async (): Promise<{ run_id: string }> => {
-      const triggerResponse = await fetch(triggerUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-Api-Key': apiKey
-        },
-        body: JSON.stringify(body)
-      })
+      host.setOutput('runId', runId)
+      saveRunId('run', runId)
 
-      if (!triggerResponse.ok) {
-        const errorText = await triggerResponse.text()
-        throw new Error(
-          `Failed to trigger action: ${triggerResponse.status} ${errorText}`
-        )
+      if (!attach && !block) {
+        // Results are collected later by a step with `mode: wait`
+        host.info('Not waiting for the run to complete (block is false)')
+        host.setOutput('status', 'running')
+        host.saveState('finished', 'true')
+        return
       }
+    }
 
-      return (await triggerResponse.json()) as { run_id: string }
+    if (checkRuns && !githubToken) {
+      host.warning('checkRuns requires githubToken, skipping check runs')
+    }
+    const startChecks = (runResults: RunResults): SuiteCheckRuns | undefined =>
+      checkRuns && githubToken
+        ? startCheckRuns(runResults, githubToken)
+        : undefined
+
+    // Stop waiting when the workflow run is cancelled. The runner kills the
+    // step a few seconds later, so only the local reports are written then.
+    const cancelController = new AbortController()
+    const completeChecks = async (
+      suiteChecks: SuiteCheckRuns | undefined
+    ): Promise<void> => {
+      if (!cancelController.signal.aborted) await suiteChecks?.complete()
+    }
+    const onSignal = (signal: NodeJS.Signals): void => {
+      host.warning(`Received ${signal}, stopping`)
+      cancelController.abort()
+    }
+    for (const signal of CANCEL_SIGNALS) process.once(signal, onSignal)
+
+    const options = {
+      client,
+      transport,
+      timeoutSeconds: timeout,
+      // Reruns and queued suites get no timeout of their own, the timeout
+      // bounds the whole step
+      deadline: Date.now() + timeout * 1000,
+      pollInterval,
+      dashboardUrl,
+      failFast,
+      maxRetries,
+      retryPolicy,
+      rerunFailed,
+      target,
+      metadata,
+      signal: cancelController.signal
     }
 
-    // Execute with retry logic if maxRetries > 0
-    const triggerData =
-      maxRetries > 0
-        ? await retryWithBackoff(triggerAction, maxRetries, shouldRetry)
-        : await triggerAction()
-    const runId = triggerData.run_id
+    let results: RunResults
+    let completed: boolean
 
-    if (!runId) {
-      throw new Error('No run ID received from the trigger endpoint')
-    }
+    try {
+      if (fanOut) {
+        const outcome = await runSuitesInParallel(
+          suiteIds ?? [],
+          maxConcurrency,
+          options,
+          (suiteId, suiteResults) => {
+            saveRunId(suiteId, suiteResults.runId)
+            const suiteChecks = startChecks(suiteResults)
+
+            return {
+              onRerun: (id) => saveRunId(suiteId, id),
+              onEnd: async () => await completeChecks(suiteChecks)
+            }
+          }
+        )
 
-    core.info(`Run ID: ${runId}`)
-    core.setOutput('runId', runId)
+        results = RunResults.combine(outcome.runs, dashboardUrl)
+        completed = outcome.completed
 
-    // Connect to SSE for real-time events
-    const sseUrl = `${originUrl}/external/actions/run/${runId}/events`
-    core.info(`Connecting to SSE endpoint: ${sseUrl}`)
+        host.setOutput(
+          'runId',
+          outcome.runs
+            .map((run) => run.runId)
+            .filter(Boolean)
+            .join(',')
+        )
+      } else {
+        results = new RunResults(runId, dashboardUrl, attach ? [] : suiteIds)
+        const suiteChecks = startChecks(results)
+
+        completed = await followRun(results, {
+          ...options,
+          triggerScope: 'run',
+          onRerun: (id) => saveRunId('run', id)
+        })
+        await completeChecks(suiteChecks)
+      }
+    } finally {
+      for (const signal of CANCEL_SIGNALS) process.off(signal, onSignal)
+    }
 
-    await connectToSSE(
-      sseUrl,
-      {
-        'X-Api-Key': apiKey
-      },
-      timeout
+    host.setOutput(
+      'suiteStatuses',
+      JSON.stringify(Object.fromEntries(results.suiteStatuses))
     )
+    setResultOutputs(results)
+
+    if (completed) {
+      reportStatus(results.status ?? 'unknown')
+    } else if (fanOut) {
+      host.setOutput('status', results.status ?? 'unknown')
+    }
+
+    // Reports are written with whatever data is available, even on failure
+    if (jobSummary) await writeJobSummary(results, attach ? undefined : target)
+    if (junitPath) await writeJUnitReport(results, junitPath)
+    if (resultsPath) await writeResultsFile(results, resultsPath)
+
+    if (cancelController.signal.aborted) {
+      host.debug('Cancelled, not downloading artifacts or posting the comment')
+    } else {
+      if (artifactsDir) await downloadArtifacts(client, results, artifactsDir)
+      if (githubToken) {
+        await postPullRequestComment(results, githubToken, commentKey)
+      }
+    }
 
-    core.info('Test suite execution completed')
+    host.saveState('finished', 'true')
+    host.info('Test suite execution completed')
   } catch (error) {
     // Fail the workflow run if an error occurs
-    if (error instanceof Error) core.setFailed(error.message)
-    else core.setFailed('An unknown error occurred')
+    if (error instanceof Error) host.setFailed(error.message)
+    else host.setFailed('An unknown error occurred')
   }
 }
@@ -0,0 +1,81 @@
+import { DesplegaClient, RunStatus } from './desplega.js'
+import { errorReason, isRetryable } from './errors.js'
+import { handleStatus, handleTestEvent } from './events.js'
+import * as log from './log.js'
+import { RunResults } from './results.js'
+import { sleep } from './utils.js'
+
+/**
+ * Upper bound for the delay between status requests after failures
+ */
+const MAX_POLL_DELAY_MS = 60000
+
+/**
+ * Consecutive failed status requests before giving up
+ */
+const MAX_POLL_FAILURES = 5
+
+/**
+ * Poll the run status endpoint until the run reaches a final status. Failed
+ * requests (network errors, 5xx responses) back off exponentially.
+ * @param client The desplega.ai API client
+ * @param runId The ID of the run
+ * @param signal Aborts polling, e.g. when the overall timeout fires
+ * @param intervalSeconds Delay between status requests
+ * @param results Collects the state of the run
+ * @returns Resolves when the run reached a final status
+ */
+export async function pollRunStatus(
+  client: DesplegaClient,
+  runId: string,
+  signal: AbortSignal,
+  intervalSeconds: number,
+  results: RunResults
+): Promise<void> {
+  const intervalMs = intervalSeconds * 1000
+  let failures = 0
+  let lastStatus: string | undefined
+
+  while (true) {
+    let failure: string | undefined
+    let data: RunStatus | undefined
+
+    try {
+      data = await client.status(runId, { signal })
+    } catch (e) {
+      if (!isRetryable(e)) throw e
+      failure = errorReason(e)
+    }
+
+    if (data) {
+      results.recordSuiteEvent(data)
+      for (const test of data.tests ?? []) handleTestEvent(test, results)
+
+      if (data.status !== lastStatus) {
+        const elapsed = data.elapsed ? ` (${data.elapsed} seconds)` : ''
+        log.info(`Run status: ${data.status}${elapsed}`)
+        lastStatus = data.status
+      }
+
+      failures = 0
+      if (handleStatus(data.status)) return
+    }
+
+    let delay = intervalMs
+
+    if (failure) {
+      failures++
+
+      if (failures > MAX_POLL_FAILURES) {
+        throw new Error(
+          `Gave up after ${MAX_POLL_FAILURES} failed status requests: ${failure}`
+        )
+      }
+
+      delay = Math.min(intervalMs * Math.pow(2, failures), MAX_POLL_DELAY_MS)
+      log.warning(`Status request failed (${failure}), retrying in ${delay}ms`)
+    }
+
+    await sleep(delay, signal)
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * The entrypoint for the action's post step. This file simply imports and runs
+ * the cleanup logic.
+ */
+import { cleanup } from './cleanup.js'
+
+/* istanbul ignore next */
+cleanup()
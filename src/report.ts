@@ -0,0 +1,205 @@
+import { mkdir, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { errorReason } from './errors.js'
+import * as host from './host.js'
+import { FAILED_STATUSES, RunResults, TestResult } from './results.js'
+
+/**
+ * Version of the results file format, bumped on breaking changes
+ */
+const RESULTS_SCHEMA_VERSION = 1
+
+/**
+ * A single test in the results file
+ */
+export interface TestReport {
+  id: string
+  name?: string
+  suiteId?: string
+  status: string
+  durationSeconds?: number
+  failedStep?: string
+  error?: string
+  /** The run that reported the test, when the results of runs are combined */
+  runId?: string
+  url?: string
+}
+
+/**
+ * A single suite in the results file
+ */
+export interface SuiteReport {
+  id: string
+  status: string
+  /** Sum of the durations of the tests of the suite */
+  durationSeconds: number
+  counts: ResultCounts
+}
+
+/**
+ * Number of tests per outcome. Errors count as failures, tests that did not
+ * complete as skipped.
+ */
+export interface ResultCounts {
+  total: number
+  passed: number
+  failed: number
+  flaky: number
+  skipped: number
+}
+
+/**
+ * The results file, a machine-readable version of the job summary
+ */
+export interface ResultsReport {
+  schemaVersion: number
+  runId: string
+  status: string
+  url?: string
+  startTime?: string
+  endTime?: string
+  durationSeconds?: number
+  /** IDs of the runs that reran failed tests, in order */
+  rerunIds: string[]
+  counts: ResultCounts
+  suites: SuiteReport[]
+  tests: TestReport[]
+}
+
+/**
+ * Count the tests of a run or suite by outcome
+ * @param tests The tests
+ * @returns The counts
+ */
+function countTests(tests: TestResult[]): ResultCounts {
+  const count = (statuses: string[]): number =>
+    tests.filter((test) => statuses.includes(test.status)).length
+
+  const passed = count(['passed'])
+  const failed = count(FAILED_STATUSES)
+  const flaky = count(['flaky'])
+
+  return {
+    total: tests.length,
+    passed,
+    failed,
+    flaky,
+    skipped: tests.length - passed - failed - flaky
+  }
+}
+
+/**
+ * Round a duration to millisecond precision
+ * @param seconds Duration in seconds
+ * @returns The rounded duration
+ */
+function roundSeconds(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000
+}
+
+/**
+ * Get the duration of a run, from the API or from its start and end time
+ * @param results The collected state of the run
+ * @returns Duration in seconds, if known
+ */
+function runDuration(results: RunResults): number | undefined {
+  if (results.elapsed !== undefined) return roundSeconds(results.elapsed)
+  if (!results.startTime || !results.endTime) return undefined
+
+  const elapsed = Date.parse(results.endTime) - Date.parse(results.startTime)
+  return isNaN(elapsed) ? undefined : roundSeconds(elapsed / 1000)
+}
+
+/**
+ * Build the results file from the collected results. Works with partial
+ * results, tests that did not complete keep their last known status.
+ * @param results The collected state of the run
+ * @returns The results document
+ */
+export function buildResultsReport(results: RunResults): ResultsReport {
+  const tests = results.testResults
+  const suiteIds = new Set(results.suiteIds)
+  for (const test of tests) if (test.suiteId) suiteIds.add(test.suiteId)
+
+  const suites = Array.from(suiteIds, (suiteId): SuiteReport => {
+    const suiteTests = tests.filter((test) => test.suiteId === suiteId)
+
+    return {
+      id: suiteId,
+      status: results.suiteStatuses.get(suiteId) ?? results.status ?? 'unknown',
+      durationSeconds: roundSeconds(
+        suiteTests.reduce((sum, test) => sum + (test.elapsed ?? 0), 0)
+      ),
+      counts: countTests(suiteTests)
+    }
+  })
+
+  return {
+    schemaVersion: RESULTS_SCHEMA_VERSION,
+    runId: results.runId,
+    status: results.status ?? 'unknown',
+    url: results.runUrl,
+    startTime: results.startTime,
+    endTime: results.endTime,
+    durationSeconds: runDuration(results),
+    rerunIds: results.rerunIds,
+    counts: countTests(tests),
+    suites,
+    tests: tests.map((test) => ({
+      id: test.id,
+      name: test.name,
+      suiteId: test.suiteId,
+      status: test.status,
+      durationSeconds:
+        test.elapsed !== undefined ? roundSeconds(test.elapsed) : undefined,
+      failedStep: test.failedStep,
+      error: test.error,
+      runId: test.runId,
+      url: results.testUrl(test.id)
+    }))
+  }
+}
+
+/**
+ * Expose the counts, duration, link and failed tests of a run as step
+ * outputs, so that later steps can branch on them
+ * @param results The collected state of the run
+ */
+export function setResultOutputs(results: RunResults): void {
+  const counts = countTests(results.testResults)
+  const duration = runDuration(results)
+  const failedTests = results.testResults
+    .filter((test) => FAILED_STATUSES.includes(test.status))
+    .map((test) => ({ id: test.id, name: test.name, suiteId: test.suiteId }))
+
+  host.setOutput('passedCount', counts.passed)
+  host.setOutput('failedCount', counts.failed)
+  host.setOutput('flakyCount', counts.flaky)
+  if (duration !== undefined) host.setOutput('durationSeconds', duration)
+  if (results.runUrl) host.setOutput('reportUrl', results.runUrl)
+  host.setOutput('failedTests', JSON.stringify(failedTests))
+}
+
+/**
+ * Write the results file and expose its path as the `resultsPath` output.
+ * Failures to write it are only reported as warnings.
+ * @param results The collected state of the run
+ * @param filePath Where to write the file, relative to the workspace
+ */
+export async function writeResultsFile(
+  results: RunResults,
+  filePath: string
+): Promise<void> {
+  try {
+    const resultsPath = path.resolve(filePath)
+    const report = buildResultsReport(results)
+
+    await mkdir(path.dirname(resultsPath), { recursive: true })
+    await writeFile(resultsPath, `${JSON.stringify(report, null, 2)}\n`, 'utf8')
+
+    host.info(`Results written to ${resultsPath}`)
+    host.setOutput('resultsPath', resultsPath)
+  } catch (error) {
+    host.warning(`Failed to write results file: ${errorReason(error)}`)
+  }
+}
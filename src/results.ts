@@ -0,0 +1,390 @@
+/**
+ * Payload of a `test_suite_run.event` event, also returned by the run status
+ * endpoint
+ *
+ *  {"status": "passed", "elapsed": 4.678537, "end_time": "2025-05-21T21:45:37.774642+00:00", "test_ids": ["7eb44e14-6758-4180-9f87-81b42f54ff70", "5e220e7b-feb6-42fa-b3a5-ee5a12b5d50e"], "start_time": "2025-05-21T21:45:33.096100+00:00", "test_suite_id": "9acb9753-a6ca-4f4e-ba33-952f23978c9d", "ts": "2025-05-21T21:45:37.774642"}
+ */
+export interface SuiteRunEvent {
+  status: string
+  elapsed?: number
+  start_time?: string
+  end_time?: string
+  test_ids?: string[]
+  test_suite_id?: string
+  ts?: string
+  /** Only sent by the status endpoint */
+  tests?: TestRunEvent[]
+}
+
+/**
+ * Payload of a `test_run.event` event, sent when a single test changes status
+ *
+ *  {"status": "failed", "test_id": "7eb44e14-6758-4180-9f87-81b42f54ff70", "test_name": "Login with valid credentials", "test_suite_id": "9acb9753-a6ca-4f4e-ba33-952f23978c9d", "elapsed": 2.1, "failed_step": "Click the login button", "error": "Element not found", "ts": "2025-05-21T21:45:35.123456"}
+ */
+export interface TestRunEvent {
+  status: string
+  test_id: string
+  test_name?: string
+  test_suite_id?: string
+  elapsed?: number
+  failed_step?: string
+  error?: string
+  ts?: string
+}
+
+/**
+ * The latest known state of a single test
+ */
+export interface TestResult {
+  id: string
+  name?: string
+  suiteId?: string
+  status: string
+  elapsed?: number
+  failedStep?: string
+  error?: string
+  /** The run that reported the test, when the results of runs are combined */
+  runId?: string
+}
+
+/**
+ * Icons shown next to statuses in summaries and comments
+ */
+const STATUS_ICONS: Record<string, string> = {
+  passed: '✅',
+  flaky: '⚠️',
+  failed: '❌',
+  error: '❌',
+  skipped: '⏭️',
+  pending: '⏳',
+  running: '⏳'
+}
+
+/**
+ * Get the icon for a run or test status
+ * @param status The status
+ * @returns The icon, or an empty string for unknown statuses
+ */
+export function statusIcon(status: string): string {
+  return STATUS_ICONS[status] ?? ''
+}
+
+/**
+ * Test statuses that count as a failure
+ */
+export const FAILED_STATUSES = ['failed', 'error']
+
+/**
+ * Final run statuses that count as successful
+ */
+export const OK_STATUSES = ['passed', 'flaky']
+
+/**
+ * Statuses reported while a run, suite or test is still executing
+ */
+export const PENDING_STATUSES = ['pending', 'running']
+
+/**
+ * Run statuses from most to least severe, used to combine the statuses of
+ * several runs. Statuses not listed here (e.g. `cancelled`) are more severe
+ * than all of them.
+ */
+const STATUS_PRECEDENCE = ['error', 'failed', 'flaky', 'passed']
+
+/**
+ * Combine the statuses of several runs into one
+ * @param statuses The statuses
+ * @returns The most severe status
+ */
+export function combineStatuses(statuses: string[]): string {
+  const rank = (status: string): number => STATUS_PRECEDENCE.indexOf(status)
+
+  return statuses.reduce<string>(
+    (combined, status) => (rank(status) < rank(combined) ? status : combined),
+    'passed'
+  )
+}
+
+/**
+ * Collects the state of a run from the events received for it, regardless of
+ * the transport that delivered them
+ */
+export class RunResults {
+  /** The ID of the run */
+  readonly runId: string
+
+  /** Link to the run in the desplega.ai dashboard */
+  readonly runUrl: string | undefined
+
+  /** The latest status of the run */
+  status: string | undefined
+
+  startTime: string | undefined
+  endTime: string | undefined
+
+  /** Elapsed time of the run in seconds, as reported by the API */
+  elapsed: number | undefined
+
+  readonly suiteIds = new Set<string>()
+
+  /** The latest status of each suite */
+  readonly suiteStatuses = new Map<string, string>()
+
+  /** IDs of the runs that reran failed tests of this run, in order */
+  readonly rerunIds: string[] = []
+
+  /**
+   * Whether test annotations wait until the run and its reruns ended, so that
+   * tests that pass on a rerun are not reported as failed
+   */
+  deferAnnotations = false
+
+  private readonly tests = new Map<string, TestResult>()
+
+  private readonly suiteListeners: Array<(event: SuiteRunEvent) => void> = []
+
+  /** Base URL of the desplega.ai dashboard, for links to tests */
+  private dashboardUrl: string | undefined
+
+  /**
+   * @param runId The ID of the run
+   * @param dashboardUrl Base URL of the desplega.ai dashboard, if any
+   * @param suiteIds The suite IDs the run was triggered with, if known
+   */
+  constructor(runId: string, dashboardUrl?: string, suiteIds: string[] = []) {
+    this.runId = runId
+    this.dashboardUrl = dashboardUrl?.replace(/\/+$/, '')
+    this.runUrl = this.linkToRun(runId)
+
+    for (const suiteId of suiteIds) this.suiteIds.add(suiteId)
+  }
+
+  /**
+   * Record a suite-level event
+   * @param event The event payload
+   */
+  recordSuiteEvent(event: SuiteRunEvent): void {
+    if (event.status) this.status = event.status
+    if (event.test_suite_id) this.suiteIds.add(event.test_suite_id)
+    if (event.test_suite_id && event.status) {
+      this.suiteStatuses.set(event.test_suite_id, event.status)
+    }
+    if (event.start_time) this.startTime = event.start_time
+    if (event.end_time) this.endTime = event.end_time
+    if (typeof event.elapsed === 'number') this.elapsed = event.elapsed
+
+    for (const testId of event.test_ids ?? []) {
+      if (!this.tests.has(testId)) {
+        this.tests.set(testId, {
+          id: testId,
+          suiteId: event.test_suite_id,
+          status: 'pending'
+        })
+      }
+    }
+
+    for (const listener of this.suiteListeners) listener(event)
+  }
+
+  /**
+   * Register a listener called after every suite-level event is recorded
+   * @param listener Called with the event payload
+   */
+  onSuiteEvent(listener: (event: SuiteRunEvent) => void): void {
+    this.suiteListeners.push(listener)
+  }
+
+  /**
+   * Link to a single test of the run in the desplega.ai dashboard
+   * @param testId The ID of the test
+   * @returns The link, if the dashboard URL is known
+   */
+  testUrl(testId: string): string | undefined {
+    const runUrl = this.linkToRun(this.tests.get(testId)?.runId ?? this.runId)
+    return runUrl ? `${runUrl}/tests/${encodeURIComponent(testId)}` : undefined
+  }
+
+  /**
+   * Link to a run in the desplega.ai dashboard
+   * @param runId The ID of the run
+   * @returns The link, if the dashboard URL is known
+   */
+  private linkToRun(runId: string): string | undefined {
+    return this.dashboardUrl
+      ? `${this.dashboardUrl}/runs/${encodeURIComponent(runId)}`
+      : undefined
+  }
+
+  /**
+   * Get the latest known state of a test
+   * @param testId The ID of the test
+   * @returns The test result, if the test is known
+   */
+  getTest(testId: string): TestResult | undefined {
+    return this.tests.get(testId)
+  }
+
+  /**
+   * Record a test-level event
+   * @param event The event payload
+   * @returns The updated test result
+   */
+  recordTestEvent(event: TestRunEvent): TestResult {
+    const test: TestResult = this.tests.get(event.test_id) ?? {
+      id: event.test_id,
+      status: 'pending'
+    }
+
+    test.status = event.status || test.status
+    if (event.test_name) test.name = event.test_name
+    if (event.test_suite_id) test.suiteId = event.test_suite_id
+    if (typeof event.elapsed === 'number') test.elapsed = event.elapsed
+    if (event.failed_step) test.failedStep = event.failed_step
+    if (event.error) test.error = event.error
+
+    this.tests.set(event.test_id, test)
+
+    return test
+  }
+
+  /**
+   * IDs of the tests that failed, to be rerun
+   */
+  get failedTestIds(): string[] {
+    return this.testResults
+      .filter((test) => FAILED_STATUSES.includes(test.status))
+      .map((test) => test.id)
+  }
+
+  /**
+   * Combine the results of a run that reran failed tests of this run. Tests
+   * that pass on the rerun become `flaky` and keep the error of their failure,
+   * tests that fail again take the latest error. The run becomes `flaky` when
+   * no failed tests are left.
+   * @param rerun The results of the rerun
+   */
+  mergeRerun(rerun: RunResults): void {
+    this.rerunIds.push(rerun.runId)
+    if (rerun.endTime) this.endTime = rerun.endTime
+    if (rerun.elapsed !== undefined) {
+      this.elapsed = (this.elapsed ?? 0) + rerun.elapsed
+    }
+
+    const flakySuites = new Set<string>()
+
+    for (const result of rerun.testResults) {
+      const test = this.tests.get(result.id)
+      if (!test || !FAILED_STATUSES.includes(test.status)) continue
+
+      if (OK_STATUSES.includes(result.status)) {
+        test.status = 'flaky'
+        if (test.suiteId) flakySuites.add(test.suiteId)
+      } else if (FAILED_STATUSES.includes(result.status)) {
+        test.status = result.status
+        if (result.elapsed !== undefined) test.elapsed = result.elapsed
+        if (result.failedStep) test.failedStep = result.failedStep
+        if (result.error) test.error = result.error
+      }
+    }
+
+    if (
+      this.failedTestIds.length === 0 &&
+      OK_STATUSES.includes(rerun.status ?? '')
+    ) {
+      this.status = 'flaky'
+    } else if (rerun.status && !OK_STATUSES.includes(rerun.status)) {
+      this.status = rerun.status
+    }
+
+    // Suites without failed tests left count as flaky
+    for (const suiteId of flakySuites) {
+      const failing = this.testResults.some(
+        (test) =>
+          test.suiteId === suiteId && FAILED_STATUSES.includes(test.status)
+      )
+      if (failing) continue
+
+      this.suiteStatuses.set(suiteId, 'flaky')
+      for (const listener of this.suiteListeners) {
+        listener({ status: 'flaky', test_suite_id: suiteId })
+      }
+    }
+  }
+
+  /**
+   * Combine the results of runs that were triggered side by side, e.g. one
+   * per suite, into the results of a single virtual run. Tests keep a link to
+   * the run that reported them, and the combined status is the most severe
+   * status of all runs.
+   * @param runs The results of the runs
+   * @param dashboardUrl Base URL of the desplega.ai dashboard, if any
+   * @returns The combined results
+   */
+  static combine(runs: RunResults[], dashboardUrl?: string): RunResults {
+    // There is no single run to link to, only the tests are linked
+    const combined = new RunResults(
+      runs
+        .map((run) => run.runId)
+        .filter(Boolean)
+        .join(', ')
+    )
+    combined.dashboardUrl = dashboardUrl?.replace(/\/+$/, '')
+
+    for (const run of runs) {
+      for (const suiteId of run.suiteIds) {
+        // The status of a single-suite run also covers reruns and cancelling
+        const status =
+          run.suiteIds.size === 1
+            ? run.status
+            : (run.suiteStatuses.get(suiteId) ?? run.status)
+
+        combined.suiteIds.add(suiteId)
+        combined.suiteStatuses.set(suiteId, status ?? 'unknown')
+      }
+
+      for (const test of run.testResults) {
+        combined.tests.set(test.id, { ...test, runId: test.runId ?? run.runId })
+      }
+
+      combined.rerunIds.push(...run.rerunIds)
+
+      if (
+        run.startTime &&
+        (!combined.startTime || run.startTime < combined.startTime)
+      ) {
+        combined.startTime = run.startTime
+      }
+      if (
+        run.endTime &&
+        (!combined.endTime || run.endTime > combined.endTime)
+      ) {
+        combined.endTime = run.endTime
+      }
+      if (run.elapsed !== undefined) {
+        combined.elapsed = Math.max(combined.elapsed ?? 0, run.elapsed)
+      }
+    }
+
+    combined.status = combineStatuses(
+      runs.map((run) => run.status ?? 'unknown')
+    )
+
+    return combined
+  }
+
+  /**
+   * All tests of the run, in the order they were first seen
+   */
+  get testResults(): TestResult[] {
+    return Array.from(this.tests.values())
+  }
+
+  /**
+   * Count the tests with a given status
+   * @param status The status to count
+   * @returns Number of tests with that status
+   */
+  count(status: string): number {
+    return this.testResults.filter((test) => test.status === status).length
+  }
+}
@@ -0,0 +1,122 @@
+import { HttpError } from './errors.js'
+import * as log from './log.js'
+import { sleep } from './utils.js'
+
+/**
+ * How failed requests are retried. Delays grow exponentially from the base
+ * delay up to the maximum delay, and a random part of each delay is skipped
+ * ("full jitter") so that clients throttled at the same time do not retry at
+ * the same time.
+ */
+export interface RetryPolicy {
+  /** Ceiling of the delay before the first retry */
+  baseDelayMs: number
+  /** Ceiling of the delay before any retry */
+  maxDelayMs: number
+  /** Stop retrying once this much time was spent on a request and its retries */
+  maxElapsedMs: number
+}
+
+/**
+ * The retry policy used when the inputs do not set one
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  maxElapsedMs: 120000
+}
+
+/**
+ * Parse the value of a `Retry-After` header
+ * @param value Delay in seconds, or an HTTP date
+ * @param now The current time in milliseconds
+ * @returns The delay in milliseconds, or undefined if the value is invalid
+ */
+export function parseRetryAfter(
+  value: string | null | undefined,
+  now: number = Date.now()
+): number | undefined {
+  if (!value) return undefined
+
+  if (/^\d+$/.test(value.trim())) return parseInt(value, 10) * 1000
+
+  const date = Date.parse(value)
+  return isNaN(date) ? undefined : Math.max(0, date - now)
+}
+
+/**
+ * Compute the delay before a retry. A `Retry-After` sent by the server is
+ * waited for as is, otherwise the delay is a random value between zero and the
+ * exponential backoff ceiling.
+ * @param policy The retry policy
+ * @param attempt The number of the failed attempt, starting at 0
+ * @param error The error the attempt failed with
+ * @param baseDelayMs Overrides the base delay of the policy, e.g. with the
+ *   reconnection time sent by an SSE server
+ * @returns The delay in milliseconds
+ */
+export function retryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  error?: unknown,
+  baseDelayMs: number = policy.baseDelayMs
+): number {
+  if (error instanceof HttpError && error.retryAfterMs !== undefined) {
+    return error.retryAfterMs
+  }
+
+  const ceiling = Math.min(
+    policy.maxDelayMs,
+    baseDelayMs * Math.pow(2, attempt)
+  )
+  return Math.round(Math.random() * ceiling)
+}
+
+/**
+ * Options for `withRetry`
+ */
+export interface RetryOptions {
+  policy: RetryPolicy
+  /** Maximum number of retries (0 means no retries) */
+  maxRetries: number
+  /** Whether an error is worth retrying */
+  isRetryable: (error: unknown) => boolean
+  /** Cuts a delay between attempts short */
+  signal?: AbortSignal
+}
+
+/**
+ * Call a function until it succeeds, retrying failures following a retry
+ * policy. The last error is thrown when retries are exhausted, the error is
+ * not retryable, or the next delay would exceed the total retry time.
+ * @param fn Function to retry
+ * @param options How to retry
+ * @returns Promise that resolves with the function result
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  options: RetryOptions
+): Promise<T> {
+  const startedAt = Date.now()
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn()
+    } catch (error) {
+      if (attempt >= options.maxRetries || !options.isRetryable(error)) {
+        throw error
+      }
+
+      const delay = retryDelay(options.policy, attempt, error)
+      if (Date.now() - startedAt + delay > options.policy.maxElapsedMs) {
+        log.info(
+          `Not retrying, the total retry time of ${options.policy.maxElapsedMs}ms would be exceeded`
+        )
+        throw error
+      }
+
+      log.info(`Attempt ${attempt + 1} failed, retrying in ${delay}ms...`)
+      await sleep(delay, options.signal)
+    }
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * Server-Sent Events decoder following the WHATWG event stream rules.
+ *
+ * See: https://html.spec.whatwg.org/multipage/server-sent-events.html#event-stream-interpretation
+ */
+
+/**
+ * A dispatched server-sent event
+ */
+export interface ServerSentEvent {
+  /** The event type, `message` when the server did not send `event:` */
+  type: string
+  /** The event data, multiple `data:` lines joined with `\n` */
+  data: string
+  /** The last event ID at the time the event was dispatched */
+  id: string
+}
+
+/**
+ * Incremental decoder for a `text/event-stream` body. Feed it raw chunks as
+ * they arrive and it returns the events completed by each chunk. Incomplete
+ * events are kept until the blank line that terminates them arrives.
+ */
+export class SSEDecoder {
+  /** The last event ID string, kept across events */
+  lastEventId: string
+
+  /** The reconnection time in milliseconds requested through `retry:` */
+  retry: number | undefined
+
+  // The default TextDecoder strips a leading BOM for us
+  private readonly textDecoder = new TextDecoder('utf-8')
+  private buffer = ''
+  private pendingCR = false
+  private data = ''
+  private eventType = ''
+  private idBuffer: string
+
+  /**
+   * @param lastEventId The last event ID from a previous connection, if any
+   */
+  constructor(lastEventId = '') {
+    this.lastEventId = lastEventId
+    this.idBuffer = lastEventId
+  }
+
+  /**
+   * Decode a chunk of the stream
+   * @param chunk Raw bytes received from the server
+   * @returns Events completed by this chunk
+   */
+  decode(chunk: Uint8Array): ServerSentEvent[] {
+    const events: ServerSentEvent[] = []
+
+    this.buffer += this.textDecoder.decode(chunk, { stream: true })
+
+    let start = 0
+    for (let i = 0; i < this.buffer.length; i++) {
+      const char = this.buffer[i]
+
+      // The LF of a CRLF pair split across chunks was already handled
+      if (this.pendingCR) {
+        this.pendingCR = false
+        if (char === '\n' && i === start) {
+          start = i + 1
+          continue
+        }
+      }
+
+      if (char !== '\r' && char !== '\n') continue
+
+      this.processLine(this.buffer.slice(start, i), events)
+
+      if (char === '\r') {
+        if (i + 1 === this.buffer.length) this.pendingCR = true
+        else if (this.buffer[i + 1] === '\n') i++
+      }
+
+      start = i + 1
+    }
+
+    this.buffer = this.buffer.slice(start)
+
+    return events
+  }
+
+  /**
+   * Process a single line of the stream
+   * @param line The line without its terminator
+   * @param events Dispatched events are appended here
+   */
+  private processLine(line: string, events: ServerSentEvent[]): void {
+    if (line === '') {
+      this.dispatch(events)
+      return
+    }
+
+    // Comments are used as keep-alives and carry no data
+    if (line.startsWith(':')) return
+
+    const colon = line.indexOf(':')
+    const field = colon === -1 ? line : line.slice(0, colon)
+    let value = colon === -1 ? '' : line.slice(colon + 1)
+    if (value.startsWith(' ')) value = value.slice(1)
+
+    switch (field) {
+      case 'event':
+        this.eventType = value
+        break
+      case 'data':
+        this.data += `${value}\n`
+        break
+      case 'id':
+        if (!value.includes('\0')) this.idBuffer = value
+        break
+      case 'retry':
+        if (/^\d+$/.test(value)) this.retry = parseInt(value, 10)
+        break
+      default:
+        // Unknown fields are ignored
+        break
+    }
+  }
+
+  /**
+   * Dispatch the buffered event, if it has any data
+   * @param events Dispatched events are appended here
+   */
+  private dispatch(events: ServerSentEvent[]): void {
+    this.lastEventId = this.idBuffer
+
+    if (this.data === '') {
+      this.eventType = ''
+      return
+    }
+
+    events.push({
+      type: this.eventType || 'message',
+      data: this.data.endsWith('\n') ? this.data.slice(0, -1) : this.data,
+      id: this.lastEventId
+    })
+
+    this.data = ''
+    this.eventType = ''
+  }
+}
+
+/**
+ * Read server-sent events from a stream until it ends. An event that is not
+ * terminated by a blank line before the stream ends is discarded.
+ * @param reader The stream reader
+ * @param decoder The decoder to use, exposes `lastEventId` and `retry`
+ * @returns Async iterator over the dispatched events
+ */
+export async function* readServerSentEvents(
+  reader: Pick<ReadableStreamDefaultReader<Uint8Array>, 'read'>,
+  decoder: SSEDecoder = new SSEDecoder()
+): AsyncGenerator<ServerSentEvent> {
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) return
+
+    yield* decoder.decode(value)
+  }
+}
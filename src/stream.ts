@@ -0,0 +1,200 @@
+import { DesplegaClient } from './desplega.js'
+import { errorReason, HttpError, isRetryable } from './errors.js'
+import { handleEvent } from './events.js'
+import * as log from './log.js'
+import { RunResults } from './results.js'
+import { DEFAULT_RETRY_POLICY, retryDelay, RetryPolicy } from './retry.js'
+import { readServerSentEvents, SSEDecoder } from './sse.js'
+import { sleep } from './utils.js'
+
+/**
+ * Default delay before reconnecting when the server did not send `retry:`
+ */
+const DEFAULT_RECONNECT_DELAY_MS = 1000
+
+/**
+ * Consecutive failed connection attempts before giving up on the stream
+ */
+const MAX_RECONNECT_ATTEMPTS = 5
+
+/**
+ * Reconnection state carried across SSE connections of the same run
+ */
+interface SSEState {
+  lastEventId: string
+  retryDelay: number
+  eventsReceived: number
+}
+
+/**
+ * Read events from an open SSE stream until it ends or the run completes
+ * @param reader The stream reader
+ * @param state Reconnection state, updated with `id:` and `retry:` fields
+ * @param results Collects the state of the run
+ * @returns True if the run reached a final status
+ */
+async function readEvents(
+  reader: Pick<ReadableStreamDefaultReader<Uint8Array>, 'read'>,
+  state: SSEState,
+  results: RunResults
+): Promise<boolean> {
+  const decoder = new SSEDecoder(state.lastEventId)
+
+  try {
+    for await (const event of readServerSentEvents(reader, decoder)) {
+      state.eventsReceived++
+
+      log.debug(`Event type: ${event.type}`)
+      log.debug(`Event data: ${event.data}`)
+
+      if (handleEvent(event.type, event.data, results)) {
+        return true
+      }
+    }
+
+    return false
+  } finally {
+    state.lastEventId = decoder.lastEventId
+    if (decoder.retry !== undefined) state.retryDelay = decoder.retry
+  }
+}
+
+/**
+ * Options for the SSE transport
+ */
+export interface SSEOptions {
+  /** Give up on the stream when no data arrives for this long */
+  idleTimeoutMs?: number
+  /** Bounds the reconnection backoff, the base delay comes from the server */
+  retryPolicy?: RetryPolicy
+}
+
+/**
+ * Wrap a stream reader so that reads fail when the stream stays quiet
+ * @param reader The stream reader
+ * @param idleTimeoutMs Maximum time to wait for the next chunk
+ * @param onIdle Called right before the read fails
+ * @returns A reader whose reads time out
+ */
+function withIdleTimeout(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  idleTimeoutMs: number,
+  onIdle: () => void
+): Pick<ReadableStreamDefaultReader<Uint8Array>, 'read'> {
+  return {
+    read: async () => {
+      let timeoutId: ReturnType<typeof setTimeout> | undefined
+
+      const idle = new Promise<never>((_, reject) => {
+        timeoutId = setTimeout(() => {
+          onIdle()
+          reject(
+            new Error(`SSE stream went quiet for ${idleTimeoutMs / 1000}s`)
+          )
+        }, idleTimeoutMs)
+      })
+
+      try {
+        return await Promise.race([reader.read(), idle])
+      } finally {
+        clearTimeout(timeoutId)
+      }
+    }
+  }
+}
+
+/**
+ * Create an SSE client for real-time event streaming. Dropped connections, 429
+ * and 5xx responses are retried after the server's `retry:` delay plus a
+ * jittered exponential backoff, or the `Retry-After` delay, resuming from the
+ * last seen event ID.
+ * @param client The desplega.ai API client
+ * @param runId The ID of the run
+ * @param signal Aborts the stream, e.g. when the overall timeout fires
+ * @param results Collects the state of the run
+ * @param options Transport options
+ * @returns Resolves when the run reached a final status
+ */
+export async function connectToSSE(
+  client: DesplegaClient,
+  runId: string,
+  signal: AbortSignal,
+  results: RunResults,
+  options: SSEOptions = {}
+): Promise<void> {
+  const state: SSEState = {
+    lastEventId: '',
+    retryDelay: DEFAULT_RECONNECT_DELAY_MS,
+    eventsReceived: 0
+  }
+  const policy = options.retryPolicy ?? DEFAULT_RETRY_POLICY
+  let failures = 0
+  let lastError: unknown
+
+  while (true) {
+    if (failures > 0) {
+      if (failures > MAX_RECONNECT_ATTEMPTS) {
+        throw new Error(
+          `Gave up after ${MAX_RECONNECT_ATTEMPTS} reconnection attempts`
+        )
+      }
+
+      // The server's `retry:` delay is a minimum, the jittered backoff comes
+      // on top so that clients do not reconnect in lockstep
+      const delay =
+        state.retryDelay +
+        retryDelay(policy, failures - 1, lastError, state.retryDelay)
+      log.info(
+        `Reconnecting to SSE endpoint in ${delay}ms (attempt ${failures}/${MAX_RECONNECT_ATTEMPTS})...`
+      )
+      await sleep(delay, signal)
+    }
+
+    // Lets a quiet connection be closed without aborting the whole wait
+    const connection = new AbortController()
+
+    let body: ReadableStream<Uint8Array>
+    try {
+      body = await client.events(runId, state.lastEventId, {
+        signal: AbortSignal.any([signal, connection.signal])
+      })
+    } catch (e) {
+      if (!isRetryable(e)) throw e
+      lastError = e
+
+      log.warning(
+        e instanceof HttpError
+          ? `SSE endpoint returned ${e.status}`
+          : `SSE connection failed: ${errorReason(e)}`
+      )
+      failures++
+      continue
+    }
+
+    lastError = undefined
+    state.eventsReceived = 0
+    const reader = body.getReader()
+    let quiet = false
+
+    try {
+      const source = options.idleTimeoutMs
+        ? withIdleTimeout(reader, options.idleTimeoutMs, () => {
+            quiet = true
+            connection.abort()
+          })
+        : reader
+
+      if (await readEvents(source, state, results)) return
+      log.warning('SSE stream closed before the test suite completed')
+    } catch (e) {
+      if (quiet || signal.aborted) throw e
+
+      log.warning(`SSE stream interrupted: ${errorReason(e)}`)
+    } finally {
+      reader.releaseLock()
+    }
+
+    // A connection that delivered events resets the backoff
+    failures = state.eventsReceived > 0 ? 1 : failures + 1
+  }
+}
@@ -0,0 +1,109 @@
+import { DesplegaClient, Suite } from './desplega.js'
+import * as host from './host.js'
+
+/**
+ * Convert a glob pattern to a regular expression. `*` matches any run of
+ * characters and `?` a single character, everything else matches literally.
+ * @param pattern The glob pattern
+ * @returns A regular expression matching the whole string
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map((char) => {
+      if (char === '*') return '.*'
+      if (char === '?') return '.'
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    })
+    .join('')
+
+  return new RegExp(`^${source}$`)
+}
+
+/**
+ * Whether a pattern uses glob syntax
+ * @param pattern The pattern
+ * @returns True if the pattern contains `*` or `?`
+ */
+function isGlob(pattern: string): boolean {
+  return /[*?]/.test(pattern)
+}
+
+/**
+ * Describe a suite for log and error messages
+ * @param suite The suite
+ * @returns The name and ID of the suite
+ */
+function describeSuite(suite: Suite): string {
+  return `"${suite.name}" (${suite.id})`
+}
+
+/**
+ * Select suites by name and tag. Every name and tag must match at least one
+ * suite, and a plain name (without glob syntax) must match exactly one.
+ * @param suites All suites available to the API key
+ * @param names Suite names or glob patterns
+ * @param tags Suite tags or glob patterns
+ * @returns The selected suites, in the order of the listing
+ */
+export function matchSuites(
+  suites: Suite[],
+  names: string[],
+  tags: string[]
+): Suite[] {
+  const selected = new Set<Suite>()
+
+  for (const name of names) {
+    const regExp = globToRegExp(name)
+    const matches = suites.filter((suite) => regExp.test(suite.name))
+
+    if (matches.length === 0) {
+      throw new Error(`No suite matches the name "${name}"`)
+    }
+    if (matches.length > 1 && !isGlob(name)) {
+      throw new Error(
+        `The suite name "${name}" matches more than one suite: ${matches.map(describeSuite).join(', ')}`
+      )
+    }
+
+    for (const suite of matches) selected.add(suite)
+  }
+
+  for (const tag of tags) {
+    const regExp = globToRegExp(tag)
+    const matches = suites.filter((suite) =>
+      (suite.tags ?? []).some((suiteTag) => regExp.test(suiteTag))
+    )
+
+    if (matches.length === 0) {
+      throw new Error(`No suite has a tag matching "${tag}"`)
+    }
+
+    for (const suite of matches) selected.add(suite)
+  }
+
+  return suites.filter((suite) => selected.has(suite))
+}
+
+/**
+ * Resolve suite names and tags to suite IDs, and log the mapping
+ * @param client The desplega.ai API client
+ * @param names Suite names or glob patterns
+ * @param tags Suite tags or glob patterns
+ * @returns The IDs of the selected suites
+ */
+export async function resolveSuiteIds(
+  client: DesplegaClient,
+  names: string[],
+  tags: string[]
+): Promise<string[]> {
+  const suites = matchSuites(await client.listSuites(), names, tags)
+
+  host.info('Resolved suites:')
+  for (const suite of suites) {
+    const suiteTags = suite.tags?.length ? ` [${suite.tags.join(', ')}]` : ''
+    host.info(`- ${suite.name}${suiteTags} -> ${suite.id}`)
+  }
+
+  return suites.map((suite) => suite.id)
+}
@@ -0,0 +1,139 @@
+import * as core from '@actions/core'
+import { errorReason } from './errors.js'
+import { RunResults, statusIcon } from './results.js'
+import { RunTarget, redactEnv, redactUrl } from './target.js'
+import { formatDuration } from './utils.js'
+
+/**
+ * Badge colors for final statuses, anything else is rendered grey
+ */
+const STATUS_COLORS: Record<string, string> = {
+  passed: 'brightgreen',
+  flaky: 'yellow',
+  failed: 'red',
+  error: 'red',
+  timed_out: 'orange',
+  cancelled: 'lightgrey'
+}
+
+/**
+ * Escape text for use inside the HTML the summary is rendered to
+ * @param text The text to escape
+ * @returns Escaped text
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * Build a shields.io badge URL for a run status
+ * @param status The status of the run
+ * @returns The badge image URL
+ */
+function badgeUrl(status: string): string {
+  // Shields uses dashes as separators, literal ones are doubled
+  const label = encodeURIComponent(
+    status.replace(/-/g, '--').replace(/_/g, '__')
+  )
+  return `https://img.shields.io/badge/desplega.ai-${label}-${STATUS_COLORS[status] ?? 'lightgrey'}`
+}
+
+/**
+ * Format a timestamp from the API
+ * @param value ISO timestamp
+ * @returns The timestamp in UTC, or `-` when unknown
+ */
+function formatTime(value: string | undefined): string {
+  if (!value) return '-'
+
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? value : date.toISOString()
+}
+
+/**
+ * Write a Markdown job summary for the run. Failures to write it are only
+ * reported as warnings, the summary must never fail the action.
+ * @param results The collected state of the run
+ * @param target Where the run executed, shown with secrets redacted
+ */
+export async function writeJobSummary(
+  results: RunResults,
+  target?: RunTarget
+): Promise<void> {
+  try {
+    const status = results.status ?? 'unknown'
+    const tests = results.testResults
+
+    core.summary
+      .addHeading('desplega.ai test run', 2)
+      .addImage(badgeUrl(status), `Status: ${status}`)
+      .addTable([
+        [
+          { data: 'Run', header: true },
+          { data: 'Suites', header: true },
+          { data: 'Started', header: true },
+          { data: 'Finished', header: true },
+          { data: 'Duration', header: true }
+        ],
+        [
+          escapeHtml(
+            results.rerunIds.length > 0
+              ? `${results.runId} (reruns: ${results.rerunIds.join(', ')})`
+              : results.runId
+          ),
+          escapeHtml(Array.from(results.suiteIds).join(', ') || '-'),
+          formatTime(results.startTime),
+          formatTime(results.endTime),
+          results.elapsed !== undefined ? formatDuration(results.elapsed) : '-'
+        ]
+      ])
+
+    if (target?.url || target?.env) {
+      core.summary.addTable([
+        [
+          { data: 'Target URL', header: true },
+          { data: 'Environment', header: true }
+        ],
+        [
+          escapeHtml(target.url ? redactUrl(target.url) : '-'),
+          escapeHtml(target.env ? redactEnv(target.env).join(', ') : '-')
+        ]
+      ])
+    }
+
+    if (tests.length > 0) {
+      const counts = ['passed', 'failed', 'flaky']
+        .map((s) => `${results.count(s)} ${s}`)
+        .join(', ')
+
+      core.summary.addHeading(`Tests (${counts})`, 3).addTable([
+        [
+          { data: 'Test', header: true },
+          { data: 'Status', header: true },
+          { data: 'Duration', header: true },
+          { data: 'Error', header: true }
+        ],
+        ...tests.map((test) => [
+          escapeHtml(test.name ?? test.id),
+          `${statusIcon(test.status)} ${escapeHtml(test.status)}`.trim(),
+          test.elapsed !== undefined ? formatDuration(test.elapsed) : '-',
+          escapeHtml(
+            [test.failedStep, test.error].filter(Boolean).join(': ') || '-'
+          )
+        ])
+      ])
+    }
+
+    if (results.runUrl) {
+      core.summary.addLink('View the run in desplega.ai', results.runUrl)
+    }
+
+    await core.summary.write()
+  } catch (error) {
+    core.warning(`Failed to write job summary: ${errorReason(error)}`)
+  }
+}
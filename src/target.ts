@@ -0,0 +1,164 @@
+import { getDeploymentStatus } from './context.js'
+import { TriggerRequest } from './desplega.js'
+import * as host from './host.js'
+
+/**
+ * Where a run executes: the base URL the suites are pointed at and the
+ * environment variables they see
+ */
+export interface RunTarget {
+  url?: string
+  env?: Record<string, string>
+}
+
+/**
+ * Names of environment variables accepted by the `env` input
+ */
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+/**
+ * Replaces secret values in logs and summaries
+ */
+const REDACTED = '***'
+
+/**
+ * Parse the targetUrl input
+ * @param input The input string
+ * @returns The URL, undefined when not provided
+ */
+export function parseTargetUrl(input: string): string | undefined {
+  const value = input.trim()
+  if (!value) return undefined
+
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    throw new Error(`Invalid targetUrl "${redactUrl(value)}"`)
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(
+      `Invalid targetUrl "${redactUrl(value)}", expected an http or https URL`
+    )
+  }
+
+  return value
+}
+
+/**
+ * Parse the env input, one `KEY=VALUE` per line. Blank lines and lines
+ * starting with `#` are skipped, a repeated key keeps the last value. Errors
+ * never include the value, it may be a secret.
+ * @param input The input string
+ * @returns The variables, undefined when none are given
+ */
+export function parseEnv(input: string): Record<string, string> | undefined {
+  const env: Record<string, string> = {}
+
+  input.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim()
+    if (!line || line.startsWith('#')) return
+
+    const separator = line.indexOf('=')
+    if (separator === -1) {
+      throw new Error(
+        `Invalid env entry on line ${index + 1}, expected KEY=VALUE`
+      )
+    }
+
+    const name = line.slice(0, separator).trim()
+    if (!ENV_NAME_PATTERN.test(name)) {
+      throw new Error(
+        `Invalid env variable name "${name}" on line ${index + 1}`
+      )
+    }
+
+    env[name] = line.slice(separator + 1).trim()
+  })
+
+  return Object.keys(env).length > 0 ? env : undefined
+}
+
+/**
+ * Mask the secret parts of a target in the workflow logs. Every environment
+ * variable value is treated as a secret, as is the password of the URL.
+ * @param target The target of the run
+ */
+export function maskTarget(target: RunTarget): void {
+  for (const value of Object.values(target.env ?? {})) {
+    if (value) host.setSecret(value)
+  }
+
+  if (target.url) {
+    const password = new URL(target.url).password
+    if (password) host.setSecret(decodeURIComponent(password))
+  }
+}
+
+/**
+ * Hide the credentials of a URL
+ * @param value The URL
+ * @returns The URL with its user name and password redacted
+ */
+export function redactUrl(value: string): string {
+  return value.replace(/^([a-z][a-z0-9+.-]*:\/\/)[^/@]*@/i, `$1${REDACTED}@`)
+}
+
+/**
+ * Describe environment variables without their values
+ * @param env The variables
+ * @returns One `KEY=***` entry per variable
+ */
+export function redactEnv(env: Record<string, string>): string[] {
+  return Object.keys(env).map((name) => `${name}=${REDACTED}`)
+}
+
+/**
+ * Fields of the trigger request body that point a run at its target
+ * @param target The target of the run
+ * @returns The `target_url` and `env` fields, when set
+ */
+export function targetFields(
+  target: RunTarget
+): Pick<TriggerRequest, 'target_url' | 'env'> {
+  const fields: Pick<TriggerRequest, 'target_url' | 'env'> = {}
+  if (target.url) fields.target_url = target.url
+  if (target.env) fields.env = target.env
+  return fields
+}
+
+/**
+ * Follow the `deployment_status` event that triggered the workflow, if any.
+ * Only successful deployments are tested, against their environment URL
+ * unless the targetUrl input is set.
+ * @param target The target of the run, updated with the deployment URL
+ * @returns False when the deployment did not succeed and nothing should run
+ */
+export function applyDeploymentStatus(target: RunTarget): boolean {
+  const deployment = getDeploymentStatus()
+  if (!deployment) return true
+
+  const environment = deployment.environment
+    ? ` of ${deployment.environment}`
+    : ''
+
+  if (deployment.state !== 'success') {
+    host.info(
+      `The deployment${environment} is ${deployment.state}, skipping the run`
+    )
+    return false
+  }
+
+  if (target.url) {
+    host.debug('targetUrl is set, ignoring the deployment URL')
+  } else if (deployment.environmentUrl) {
+    target.url = parseTargetUrl(deployment.environmentUrl)
+    host.info(`Using the URL of the deployment${environment} as target`)
+  } else {
+    host.warning(
+      `The deployment${environment} has no environment URL, running without a target URL`
+    )
+  }
+
+  return true
+}
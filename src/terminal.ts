@@ -0,0 +1,194 @@
+import { AnnotationOptions, FailureKind, Host } from './host.js'
+
+/**
+ * Failure kinds from least to most severe, the most severe one decides the
+ * exit code when a run fails in several ways
+ */
+const FAILURE_PRECEDENCE: FailureKind[] = [
+  'failed',
+  'error',
+  'timeout',
+  'cancelled'
+]
+
+/**
+ * ANSI codes of the colors used in the terminal
+ */
+const COLORS = {
+  red: 31,
+  green: 32,
+  yellow: 33,
+  dim: 2
+} as const
+
+/**
+ * Colors of the statuses highlighted in log lines
+ */
+const STATUS_COLORS: Record<string, keyof typeof COLORS> = {
+  passed: 'green',
+  flaky: 'yellow',
+  failed: 'red',
+  error: 'red',
+  cancelled: 'yellow'
+}
+
+/**
+ * Where a terminal host writes to, e.g. `process.stdout`
+ */
+export interface Output {
+  write(text: string): unknown
+}
+
+/**
+ * Options of the terminal host
+ */
+export interface TerminalOptions {
+  stdout: Output
+  stderr: Output
+  /** Whether to use ANSI colors */
+  color: boolean
+  /** Whether to show debug messages */
+  verbose: boolean
+}
+
+/**
+ * Runs the action in a terminal: inputs come from flags and environment
+ * variables, logs are written to stdout and stderr, outputs are kept for the
+ * caller and failures are turned into an exit code.
+ */
+export class TerminalHost implements Host {
+  /** The outputs set by the action, serialized like GitHub Actions does */
+  readonly outputs = new Map<string, string>()
+
+  /** The most severe failure, undefined while the action did not fail */
+  failure: FailureKind | undefined
+
+  private readonly inputs: Record<string, string>
+
+  private readonly options: TerminalOptions
+
+  private readonly secrets: string[] = []
+
+  /**
+   * @param inputs The values of the inputs, by input name
+   * @param options Where to write and how
+   */
+  constructor(inputs: Record<string, string>, options: TerminalOptions) {
+    this.inputs = inputs
+    this.options = options
+  }
+
+  getInput(name: string, options?: { required?: boolean }): string {
+    const value = (this.inputs[name] ?? '').trim()
+    if (options?.required && !value) {
+      throw new Error(`Input required and not supplied: ${name}`)
+    }
+    return value
+  }
+
+  setOutput(name: string, value: unknown): void {
+    const text = typeof value === 'string' ? value : JSON.stringify(value)
+    this.outputs.set(name, text)
+    this.debug(`Output ${name}: ${text}`)
+  }
+
+  setFailed(message: string, kind: FailureKind): void {
+    if (
+      !this.failure ||
+      FAILURE_PRECEDENCE.indexOf(kind) >
+        FAILURE_PRECEDENCE.indexOf(this.failure)
+    ) {
+      this.failure = kind
+    }
+    this.write(
+      this.options.stderr,
+      this.paint('red', `✖ ${this.mask(message)}`)
+    )
+  }
+
+  setSecret(secret: string): void {
+    if (secret) this.secrets.push(secret)
+  }
+
+  saveState(): void {
+    // There is no post step outside GitHub Actions
+  }
+
+  debug(message: string): void {
+    if (this.options.verbose) {
+      this.write(this.options.stdout, this.paint('dim', this.mask(message)))
+    }
+  }
+
+  info(message: string): void {
+    this.write(this.options.stdout, this.highlight(this.mask(message)))
+  }
+
+  warning(message: string, options?: AnnotationOptions): void {
+    this.write(
+      this.options.stderr,
+      this.paint('yellow', `⚠ ${this.mask(withTitle(message, options))}`)
+    )
+  }
+
+  error(message: string, options?: AnnotationOptions): void {
+    this.write(
+      this.options.stderr,
+      this.paint('red', `✖ ${this.mask(withTitle(message, options))}`)
+    )
+  }
+
+  /**
+   * Color text, when colors are enabled
+   * @param color The color
+   * @param text The text
+   * @returns The colored text
+   */
+  paint(color: keyof typeof COLORS, text: string): string {
+    return this.options.color
+      ? `\u001b[${COLORS[color]}m${text}\u001b[0m`
+      : text
+  }
+
+  /**
+   * Color the statuses mentioned in a log line
+   * @param message The log line
+   * @returns The highlighted line
+   */
+  private highlight(message: string): string {
+    return message.replace(/\b(passed|flaky|failed|error|cancelled)\b/g, (s) =>
+      this.paint(STATUS_COLORS[s], s)
+    )
+  }
+
+  /**
+   * Hide the secrets in a message
+   * @param message The message
+   * @returns The message with every secret replaced by `***`
+   */
+  mask(message: string): string {
+    return this.secrets.reduce(
+      (text, secret) => text.split(secret).join('***'),
+      message
+    )
+  }
+
+  /**
+   * Write a line
+   * @param output Where to write
+   * @param line The line, without its line break
+   */
+  private write(output: Output, line: string): void {
+    output.write(`${line}\n`)
+  }
+}
+
+/**
+ * Put the title of an annotation in front of its message
+ * @param message The message
+ * @param options The annotation options
+ * @returns The message, with its title if it has one
+ */
+function withTitle(message: string, options?: AnnotationOptions): string {
+  return options?.title ? `${options.title}\n${message}` : message
+}
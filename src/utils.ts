@@ -0,0 +1,113 @@
+/**
+ * Parse a comma-separated string into an array of strings
+ * @param input The input string
+ * @returns Array of strings
+ */
+export function parseStringArray(
+  input: string | undefined
+): string[] | undefined {
+  if (!input) return undefined
+  return input
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Parse a string boolean to a boolean
+ * @param input The input string
+ * @returns Boolean value
+ */
+export function parseBoolean(input: string): boolean {
+  return input.toLowerCase() === 'true'
+}
+
+/**
+ * Parse a string number to a number
+ * @param input The input string
+ * @returns Number value
+ */
+export function parseNumber(input: string): number {
+  const num = parseInt(input, 10)
+  return isNaN(num) ? 0 : num
+}
+
+/**
+ * Wait for a specified number of milliseconds
+ * @param ms Milliseconds to wait
+ * @param signal Optional signal that cuts the wait short with an AbortError
+ */
+export async function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason)
+
+    const onAbort = (): void => {
+      clearTimeout(timeoutId)
+      reject(signal?.reason)
+    }
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * Check whether an error was caused by aborting a request
+ * @param error The error to check
+ * @returns True if the error is an AbortError
+ */
+export function isAbortError(error: unknown): boolean {
+  // Aborted waits reject with a DOMException, which is not always an Error
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    (error as { name?: unknown }).name === 'AbortError'
+  )
+}
+
+/**
+ * Format a duration for humans
+ * @param seconds Duration in seconds
+ * @returns Formatted duration, e.g. `4.7s`, `2m 5s` or `1h 3m`
+ */
+export function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${Math.round(seconds * 10) / 10}s`
+
+  const total = Math.round(seconds)
+  const hours = Math.floor(total / 3600)
+  const minutes = Math.floor((total % 3600) / 60)
+
+  if (hours > 0) return `${hours}h ${minutes}m`
+  return `${minutes}m ${total % 60}s`
+}
+
+/**
+ * Map items with an async function, running at most `limit` calls at once
+ * @param items The items
+ * @param limit Maximum number of concurrent calls, 0 means no limit
+ * @param fn Called for every item
+ * @returns The results, in the order of the items
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let next = 0
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await fn(items[index])
+    }
+  }
+
+  const workers = limit > 0 ? Math.min(limit, items.length) : items.length
+  await Promise.all(Array.from({ length: workers }, worker))
+
+  return results
+}